@@ -1,6 +1,8 @@
-import { getGun, nodes, generateId } from './gunService';
+import { get, getField, getGun, nodes, generateId } from './gunService';
 import { getCurrentUser } from './authService';
-import type { ChatMessage } from '$lib/types';
+import type { ChatMessage, Game } from '$lib/types';
+import { assertGameAllows } from '$lib/utils/gameLifecycle';
+import { assertNotObserver } from '$lib/utils/gameAccess';
 
 // Helpers to build chat IDs
 type ChatId = string;
@@ -13,12 +15,22 @@ export async function sendMessage(
   gameId: string,
   content: string,
   type: 'group' | 'private' = 'group',
-  recipientId?: string
+  recipientId?: string,
+  refs?: Pick<ChatMessage, 'agreement_ref' | 'draft_ref' | 'announcement'>
 ): Promise<ChatMessage | null> {
   const gun = getGun();
   const user = getCurrentUser();
   if (!gun || !user) return null;
 
+  const game = await get<Game>(`${nodes.games}/${gameId}`);
+  assertGameAllows(game?.status, 'send_message');
+  // observers read the chat but do not take part in it
+  const [players, observers] = await Promise.all([
+    getField<Record<string, boolean>>(`${nodes.games}/${gameId}`, 'players'),
+    getField<Record<string, boolean>>(`${nodes.games}/${gameId}`, 'observers')
+  ]);
+  assertNotObserver({ players: players ?? {}, observers: observers ?? {} }, user.user_id, 'send messages');
+
   const messageId = generateId();
   const chatId: ChatId =
     type === 'group' ? groupChatId(gameId) : privateChatId(gameId, user.user_id, recipientId!);
@@ -37,6 +49,7 @@ export async function sendMessage(
       content,
       type,
       recipient_ref: recipientId, // Only set for private messages
+      ...refs,
       read_by_ref: { [user.user_id]: true },
       created_at: now,
     };
@@ -50,6 +63,7 @@ export async function sendMessage(
       sender_name: user.name,
       content,
       type,
+      ...refs,
       read_by_ref: { [user.user_id]: true },
       created_at: now,
     };
@@ -94,6 +108,15 @@ export async function getGroupMessages(
   return msgs.sort((a, b) => a.created_at - b.created_at);
 }
 
+// Get the group chat messages that discuss a given agreement
+export async function getAgreementMessages(
+  gameId: string,
+  agreementId: string
+): Promise<ChatMessage[]> {
+  const msgs = await getGroupMessages(gameId);
+  return msgs.filter((m) => m.agreement_ref === agreementId);
+}
+
 // Get messages from a private chat
 export async function getPrivateMessages(
   gameId: string,
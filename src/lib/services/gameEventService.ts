@@ -0,0 +1,73 @@
+import { getGun, getRefMap, getShardedCollection, nodes, buildShardedPath } from './gunService';
+import { getCurrentUser } from './authService';
+import type { GameEvent } from '$lib/types';
+
+// Events are sharded by UTC day, like chat_rooms' messages_ref
+export function dayShard(timestamp: number): string {
+  return `day_${new Date(timestamp).toISOString().slice(0, 10).replace(/-/g, '')}`;
+}
+
+/**
+ * Append an event to the game's activity feed. The event lands in
+ * game_events/<game_id>/<day> and the day is indexed in the game's
+ * `events_ref`. Events are never edited or removed.
+ */
+export async function recordGameEvent(
+  gameId: string,
+  event: Pick<GameEvent, 'type' | 'actor_ref' | 'target_ref' | 'summary'>
+): Promise<GameEvent | null> {
+  const gun = getGun();
+  if (!gun) return null;
+  const user = getCurrentUser();
+  const now = Date.now();
+  const day = dayShard(now);
+
+  // Gun rejects undefined, so optional refs are only set when present
+  const record: GameEvent = {
+    event_id: `ev_${now}_${Math.random().toString(36).slice(2, 6)}`,
+    game_ref: gameId,
+    type: event.type,
+    ...(user ? { user_ref: user.user_id } : {}),
+    ...(event.actor_ref ? { actor_ref: event.actor_ref } : {}),
+    ...(event.target_ref ? { target_ref: event.target_ref } : {}),
+    summary: event.summary,
+    created_at: now
+  };
+
+  gun.get(buildShardedPath(nodes.game_events, gameId)).get(day).get(record.event_id).put(record);
+  gun.get(`${nodes.games}/${gameId}`).get('events_ref').put({ [day]: true });
+  return record;
+}
+
+// Get every event of a game, oldest first
+export async function getGameEvents(gameId: string): Promise<GameEvent[]> {
+  const days = Object.keys(await getRefMap(`${nodes.games}/${gameId}`, 'events_ref'));
+  const shards = await Promise.all(
+    days.map((day) => getShardedCollection<GameEvent>(buildShardedPath(nodes.game_events, gameId), day))
+  );
+  return shards
+    .flat()
+    .filter((e) => e.event_id && e.type)
+    .sort((a, b) => a.created_at - b.created_at);
+}
+
+// Subscribe to new events in any day shard of the game
+export function subscribeToGameEvents(
+  gameId: string,
+  callback: (event: GameEvent) => void
+): () => void {
+  const gun = getGun();
+  if (!gun) return () => {};
+
+  const listener = gun
+    .get(buildShardedPath(nodes.game_events, gameId))
+    .map()
+    .map()
+    .on((data: any, key?: string) => {
+      if (typeof data !== 'object' || data === null) return;
+      if (!('type' in data) || !('summary' in data)) return; // skip partial updates
+      callback({ ...data, event_id: key! });
+    });
+
+  return () => listener.off();
+}
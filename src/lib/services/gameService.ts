@@ -12,8 +12,14 @@ import {
   put,
   putSigned,
   setField,
+  buildShardedPath,
+  write,
+  getUserField,
+  putUserField,
 } from "./gunService";
 import { getCurrentUser } from "./authService";
+import { sendMessage } from "./chatService";
+import { recordGameEvent } from "./gameEventService";
 import { currentGameStore } from "../stores/gameStore";
 import type {
   Game,
@@ -22,7 +28,14 @@ import type {
   Card,
   CardWithPosition,
   Agreement,
+  AgreementVote,
   AgreementWithPosition,
+  AgreementRevision,
+  AgreementTermsChange,
+  ObligationItem,
+  BenefitItem,
+  FulfilmentState,
+  TermDraft,
   NodePosition,
   Deck,
   User,
@@ -32,8 +45,83 @@ import type {
   Capability,
   PartyItem,
   GameContext,
+  RatificationRule,
+  AgreementRenewal,
+  AgreementDispute,
+  DisputeResponse,
+  DisputeResolution,
+  AgreementDraft,
+  AgreementDependency,
+  AgreementDependencyKind,
+  RoleAssignment,
+  GameEndReason,
+  GameSummary,
+  GameSummaryActor,
+  AgreementSkeleton,
+  GameSnapshot,
+  ModerationEntry,
+  ResourceLedgerEntry,
+  ActorProfile,
+  CardTrade,
 } from "$lib/types";
 import { GameStatus, AgreementStatus } from "$lib/types";
+import {
+  resolveRatification,
+  type RatificationPolicy,
+} from "$lib/utils/ratification";
+import { resolveExpiry } from "$lib/utils/agreementExpiry";
+import {
+  assertGameAllows,
+  assertTransition,
+  effectiveStatus,
+} from "$lib/utils/gameLifecycle";
+import {
+  ROUND_PHASES,
+  assertPhaseAllows,
+  hasRounds,
+  nextPhase,
+} from "$lib/utils/gameRounds";
+import {
+  GameJoinError,
+  assertCanJoin,
+  assertNotObserver,
+  hasGamePassword,
+  hashGamePassword,
+  newInviteCode,
+} from "$lib/utils/gameAccess";
+import { dealCards, newSeed } from "$lib/utils/roleAssignment";
+import { reputationScore, tallyAgreement } from "$lib/utils/reputation";
+import {
+  actorTypeForCard,
+  assertCanHoldCard,
+  assertJurisdictionAllowed,
+  assertLegalEntity,
+  rulesFor,
+} from "$lib/utils/actorTypes";
+import {
+  formatQuantity,
+  ledgerBalances,
+  parseCardResources,
+  transferNet,
+} from "$lib/utils/resourceLedger";
+import {
+  parseSnapshotState,
+  primitiveFields,
+  serializeSnapshotState,
+  withTombstones,
+} from "$lib/utils/gameSnapshot";
+import {
+  buildGameSummary,
+  endReason,
+  hasEndConditions,
+  roundsPlayed,
+  type GameTally,
+} from "$lib/utils/gameEnd";
+import {
+  dependencyBlock,
+  dependencyEffects,
+  wouldCreateCycle,
+} from "$lib/utils/agreementDependencies";
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Helpers
@@ -54,34 +142,6 @@ type SchemaType =
 function randomPos(): { x: number; y: number } {
   return { x: Math.random() * 800, y: Math.random() * 600 };
 }
-async function write(path: string, key: string, data: any): Promise<void> {
-  const gun = getGun();
-  if (!gun) throw new Error("[gameService] Gun not initialized");
-  if (data === undefined) {
-    console.warn(
-      `[gameService] Skipping write for undefined/null data at ${path}/${key}`,
-    );
-    return;
-  }
-  await new Promise<void>((resolve) => {
-    let done = false;
-    gun
-      .get(path)
-      .get(key)
-      .put(data, (ack: any) => {
-        if (done) return;
-        done = true;
-        if (ack?.err) console.error(ack.err);
-        resolve();
-      });
-    setTimeout(() => {
-      if (!done) {
-        done = true;
-        resolve();
-      }
-    }, 500);
-  });
-}
 
 function notNull<T>(x: T | null | undefined): x is T {
   return x != null;
@@ -284,8 +344,11 @@ export async function getGame(gameId: string): Promise<Game | null> {
     ),
   ]);
 
-  // 3️⃣ build the simple boolean‐map of players
-  const players = await readMapOrSet(`${nodes.games}/${gameId}`, "players");
+  // 3️⃣ build the simple boolean‐maps of players and observers
+  const [players, observers] = await Promise.all([
+    readMapOrSet(`${nodes.games}/${gameId}`, "players"),
+    readMapOrSet(`${nodes.games}/${gameId}`, "observers"),
+  ]);
 
   // 4️⃣ pick the single creator and deck out of their ref‐maps
   const creator_ref = Object.keys(creator_ref_map)[0] || "";
@@ -303,6 +366,7 @@ export async function getGame(gameId: string): Promise<Game | null> {
     ...data,
     game_id: gameId,
     players,
+    observers,
     actors_ref,
     creator_ref,
     deck_ref,
@@ -310,20 +374,353 @@ export async function getGame(gameId: string): Promise<Game | null> {
   };
 }
 
+// ─── Game passwords ──────────────────────────────────────────────────────────
+// The salted hash lives in the graph of the user who set it
+// (`~<password_ref>/game_access/<game_id>`) rather than on the game node.
+// Games saved before that keep `password_hash` or a plaintext `password`
+// inline until the next save or successful join moves them.
+
+// helper: read a game's stored password hash
+async function readPasswordHash(
+  gameId: string,
+  game: Game,
+): Promise<string | null> {
+  if (game.password_ref) {
+    return getUserField<string>(game.password_ref, "game_access", gameId);
+  }
+  return game.password_hash ?? null;
+}
+
+// helper: keep a password hash in the current user's graph; returns the game
+// fields that point at it and clear any inline copy
+async function storePasswordHash(
+  gameId: string,
+  hash: string,
+): Promise<Partial<Game>> {
+  const user = getCurrentUser();
+  if (!user) throw new Error("You must be logged in to set a game password");
+  await putUserField("game_access", gameId, hash);
+  return {
+    password_protected: true,
+    password_ref: user.user_id,
+    password: null,
+    password_hash: null,
+  };
+}
+
 export async function updateGame(
   gameId: string,
   updates: Partial<Game>,
 ): Promise<boolean> {
+  // status changes go through the lifecycle rules
+  let statusFrom: Game | null = null;
+  if (updates.status) {
+    const user = getCurrentUser();
+    const game = await get<Game>(`${nodes.games}/${gameId}`);
+    if (game && game.status !== updates.status) {
+      assertTransition(game.status, updates.status, {
+        isCreator: !!user && game.creator_ref === user.user_id,
+        isAdmin: user?.role === "Admin",
+      });
+      statusFrom = game;
+    }
+  }
+  // passwords are only ever stored as a salted hash, off the game node
+  if (updates.password) {
+    Object.assign(
+      updates,
+      await storePasswordHash(gameId, await hashGamePassword(updates.password)),
+    );
+  } else if (updates.password_protected === false) {
+    Object.assign(updates, {
+      password_ref: null,
+      password: null,
+      password_hash: null,
+    });
+  }
   updates.updated_at = Date.now();
   await write(`${nodes.games}`, gameId, updates);
+  if (statusFrom && updates.status && updates.status !== GameStatus.COMPLETED) {
+    await recordGameEvent(gameId, {
+      type: "status_changed",
+      summary: `Game ${statusFrom.status} → ${updates.status}`,
+    });
+  }
+  if (statusFrom && updates.status && dealsRolesOn(statusFrom, updates.status)) {
+    await assignRandomRoles(gameId);
+  }
+  if (statusFrom && updates.status === GameStatus.COMPLETED) {
+    await finishGame(gameId, { ...statusFrom, ...updates }, "manual");
+  }
   return true;
 }
 
+/**
+ * Move a game to another lifecycle status (see `GAME_TRANSITIONS`).
+ * Only the creator or an Admin may do this; rule violations throw a
+ * `GameLifecycleError`.
+ */
+export async function transitionGame(
+  gameId: string,
+  to: GameStatus,
+): Promise<Game | null> {
+  const user = getCurrentUser();
+  if (!user) return null;
+  const game = await get<Game>(`${nodes.games}/${gameId}`);
+  if (!game) {
+    console.warn(`[gameService] Game not found: ${gameId}`);
+    return null;
+  }
+  assertTransition(game.status, to, {
+    isCreator: game.creator_ref === user.user_id,
+    isAdmin: user.role === "Admin",
+  });
+  if (to === GameStatus.COMPLETED) return await finishGame(gameId, game, "manual");
+  const now = Date.now();
+  await write(`${nodes.games}`, gameId, { status: to, updated_at: now });
+  console.log(`[gameService] Game ${gameId}: ${game.status} → ${to}`);
+  await recordGameEvent(gameId, {
+    type: "status_changed",
+    summary: `Game ${game.status} → ${to}`,
+  });
+  // random-role games deal cards to players without one
+  if (dealsRolesOn(game, to)) await assignRandomRoles(gameId);
+  return { ...game, status: to, updated_at: now };
+}
+
+// ─── Rounds ──────────────────────────────────────────────────────────────────
+
+/**
+ * Move an active game to its next phase (negotiate → vote → resolve → next
+ * round's negotiate); the first call starts round 1. With `skipToNextRound`
+ * the rest of the current round is skipped. `minutes` times the new phase and
+ * becomes the default for later phases (0 switches the timer off).
+ * Only the creator or an Admin may advance rounds.
+ */
+export async function advanceRound(
+  gameId: string,
+  options: { skipToNextRound?: boolean; minutes?: number } = {},
+): Promise<Game | null> {
+  const user = getCurrentUser();
+  if (!user) return null;
+  const game = await get<Game>(`${nodes.games}/${gameId}`);
+  if (!game) {
+    console.warn(`[gameService] Game not found: ${gameId}`);
+    return null;
+  }
+  if (game.creator_ref !== user.user_id && user.role !== "Admin") {
+    throw new Error("Only the game creator or an admin can advance rounds");
+  }
+  if (effectiveStatus(game.status) !== GameStatus.ACTIVE) {
+    throw new Error(`Rounds only advance while the game is active (it is ${game.status})`);
+  }
+
+  // 1️⃣ Work out the next round and phase
+  const next =
+    options.skipToNextRound && game.current_round
+      ? { round: game.current_round + 1, phase: ROUND_PHASES[0] }
+      : nextPhase(game.current_round, game.round_phase);
+  const minutes = options.minutes ?? game.phase_minutes ?? null;
+  const now = Date.now();
+
+  // the last round is over: end the game, which closes it
+  if (game.max_rounds && next.round > game.max_rounds) {
+    return await finishGame(gameId, game, "max_rounds");
+  }
+
+  // 2️⃣ Close the finished round and open the new one
+  if (next.round !== game.current_round) {
+    await Promise.all([
+      ...(game.current_round
+        ? [
+            write(`${nodes.games}/${gameId}/rounds`, `round_${game.current_round}`, {
+              ended_at: now,
+            }),
+          ]
+        : []),
+      write(`${nodes.games}/${gameId}/rounds`, `round_${next.round}`, {
+        round: next.round,
+        started_at: now,
+      }),
+    ]);
+  }
+
+  // 3️⃣ Write the new phase and its timer
+  const patch: Partial<Game> = {
+    current_round: next.round,
+    round_phase: next.phase,
+    phase_started_at: now,
+    phase_ends_at: minutes ? now + minutes * 60_000 : null,
+    phase_minutes: minutes || null,
+    updated_at: now,
+  };
+  await write(nodes.games, gameId, patch);
+  console.log(
+    `[gameService] Game ${gameId}: round ${next.round}, ${next.phase} phase`,
+  );
+  await recordGameEvent(gameId, {
+    type: "round_advanced",
+    summary: `Round ${next.round}: ${next.phase} phase`,
+  });
+  return { ...game, ...patch };
+}
+
+// ─── End conditions ──────────────────────────────────────────────────────────
+
+// helper: players, actors with their cards and agreements of a game
+async function readGameTally(gameId: string, game: Game): Promise<GameTally> {
+  const [players, actorsRef, rawAgs] = await Promise.all([
+    readMapOrSet(`${nodes.games}/${gameId}`, "players"),
+    getRefMap(`${nodes.games}/${gameId}`, "actors_ref"),
+    getCollection<Agreement>(nodes.agreements),
+  ]);
+
+  const actors = await Promise.all(
+    Object.keys(actorsRef).map(async (aid) => {
+      const [actor, cardsByGame] = await Promise.all([
+        get<Actor>(`${nodes.actors}/${aid}`),
+        getMap(`${nodes.actors}/${aid}`, "cards_by_game"),
+      ]);
+      if (!actor) return null;
+      const cardRef = cardsByGame[gameId] || null;
+      const card = cardRef ? await get<Card>(`${nodes.cards}/${cardRef}`) : null;
+      return {
+        actor_id: aid,
+        name: actor.custom_name || card?.role_title || aid,
+        card_ref: cardRef,
+      };
+    }),
+  );
+
+  const agreements = await Promise.all(
+    rawAgs
+      .filter((ag) => ag && ag.game_ref === gameId)
+      .map(async (ag) => {
+        const [parties, cards] = await Promise.all([
+          getRefMap(`${nodes.agreements}/${ag.agreement_id}`, "parties"),
+          getRefMap(`${nodes.agreements}/${ag.agreement_id}`, "cards_ref"),
+        ]);
+        return {
+          status: ag.status,
+          parties: Object.keys(parties),
+          cards: Object.keys(cards),
+        };
+      }),
+  );
+
+  return {
+    players: Object.keys(players).length,
+    roundsPlayed: roundsPlayed(game),
+    agreements,
+    actors: actors.filter(notNull),
+  };
+}
+
+// helper: freeze the game as COMPLETED with its final summary; the round in
+// progress is closed with it, so it counts as played
+async function finishGame(
+  gameId: string,
+  game: Game,
+  reason: GameEndReason,
+  tally?: GameTally,
+): Promise<Game> {
+  const now = Date.now();
+  if (game.current_round) {
+    await write(`${nodes.games}/${gameId}/rounds`, `round_${game.current_round}`, {
+      ended_at: now,
+    });
+  }
+  const summary = buildGameSummary(
+    {
+      ...(tally ?? (await readGameTally(gameId, game))),
+      roundsPlayed: roundsPlayed(game, true),
+    },
+    reason,
+    now,
+  );
+  const patch: Partial<Game> = {
+    status: GameStatus.COMPLETED,
+    ended_at: now,
+    end_reason: reason,
+    phase_ends_at: null,
+    final_summary: summary,
+    updated_at: now,
+  };
+  await write(nodes.games, gameId, patch);
+  console.log(`[gameService] Game ${gameId} completed (${reason})`);
+  await recordGameEvent(gameId, {
+    type: "status_changed",
+    summary: `Game completed (${reason.replace(/_/g, " ")})`,
+  });
+  return { ...game, ...patch };
+}
+
+/**
+ * Complete an active or paused game whose end condition is met (end date,
+ * rounds played, every card placed). Runs whenever a game context loads and
+ * after an agreement is accepted; returns the reason when the game ended.
+ */
+export async function evaluateGameEnd(
+  gameId: string,
+): Promise<GameEndReason | null> {
+  const game = await get<Game>(`${nodes.games}/${gameId}`);
+  if (!game || !hasEndConditions(game)) return null;
+  const status = effectiveStatus(game.status);
+  if (status !== GameStatus.ACTIVE && status !== GameStatus.PAUSED) return null;
+
+  // rounds count once the next one has started
+  const played = roundsPlayed(game);
+  let reason = endReason(game, { roundsPlayed: played, agreements: [], actors: [] });
+  let tally: GameTally | undefined;
+  if (!reason && game.end_when_all_cards_placed) {
+    tally = await readGameTally(gameId, game);
+    reason = endReason(game, { ...tally, roundsPlayed: played });
+  }
+  if (!reason) return null;
+  await finishGame(gameId, game, reason, tally);
+  return reason;
+}
+
+/**
+ * The summary frozen onto a completed game, or null while it is running.
+ */
+export async function getGameSummary(
+  gameId: string,
+): Promise<GameSummary | null> {
+  const base = `${nodes.games}/${gameId}`;
+  const summary = await getField<GameSummary>(base, "final_summary");
+  if (!summary || !summary.reason) return null;
+
+  const [byStatusRaw, actorIds] = await Promise.all([
+    getField<Record<string, number>>(`${base}/final_summary`, "agreements_by_status"),
+    getRefMap(`${base}/final_summary`, "actors"),
+  ]);
+  const actors: Record<string, GameSummaryActor> = {};
+  await Promise.all(
+    Object.keys(actorIds).map(async (aid) => {
+      const row = await getField<GameSummaryActor>(`${base}/final_summary/actors`, aid);
+      if (row) actors[aid] = row;
+    }),
+  );
+  return {
+    ...summary,
+    agreements_by_status: Object.fromEntries(
+      Object.entries(byStatusRaw ?? {}).filter(([, n]) => typeof n === "number"),
+    ),
+    actors,
+  };
+}
+
 export async function createGame(
   name: string,
   deckRef: string, // Changed from deckType to deckRef
   roleAssignmentType: "player-choice" | "random" = "random",
   maxPlayers?: number,
+  ratification: {
+    rule: RatificationRule;
+    threshold?: number;
+    consentDeadlineHours?: number;
+  } = { rule: "unanimous" },
 ): Promise<Game | null> {
   const user = getCurrentUser();
   if (!user) return null;
@@ -366,6 +763,13 @@ export async function createGame(
     created_at: now,
     updated_at: now,
     max_players: normalizedMax,
+    ratification_rule: ratification.rule,
+    ...(ratification.rule === "supermajority" && ratification.threshold
+      ? { ratification_threshold: ratification.threshold }
+      : {}),
+    ...(ratification.rule === "consent" && ratification.consentDeadlineHours
+      ? { consent_deadline_hours: ratification.consentDeadlineHours }
+      : {}),
   };
   await write(nodes.games, gameId, gameRoot);
 
@@ -408,16 +812,182 @@ export async function createGame(
   return await getGame(gameId);
 }
 
-export async function joinGame(gameId: string): Promise<boolean> {
+// ─── Cloning ─────────────────────────────────────────────────────────────────
+
+/**
+ * Start a fresh game from an existing one: same deck, player cap, role
+ * assignment, ratification, rounds/end settings and password. With
+ * `includeAgreements` each agreement is kept as a skeleton keyed by card, so
+ * it can be replayed once players hold those cards again. Players, actors,
+ * votes and history are never copied; the clone starts in CREATED.
+ * Only the source game's creator or an Admin may clone it.
+ */
+export async function cloneGame(
+  gameId: string,
+  options: { name?: string; includeAgreements?: boolean; keepPassword?: boolean } = {},
+): Promise<Game | null> {
+  const user = getCurrentUser();
+  if (!user) return null;
+  const source = await get<Game>(`${nodes.games}/${gameId}`);
+  if (!source) {
+    console.warn(`[gameService] Game not found: ${gameId}`);
+    return null;
+  }
+  if (source.creator_ref !== user.user_id && user.role !== "Admin") {
+    throw new Error("Only the game creator or an admin can clone this game");
+  }
+  // the password hash must be readable before anything is created
+  const keepPassword = options.keepPassword !== false && hasGamePassword(source);
+  const passwordHash = keepPassword
+    ? ((await readPasswordHash(gameId, source)) ??
+      (source.password ? await hashGamePassword(source.password) : null))
+    : null;
+  if (keepPassword && !passwordHash) {
+    throw new Error(
+      "The source game's password could not be read; try again or clone without it",
+    );
+  }
+
+  // 1️⃣ Create the new game with the source's core settings
+  const clone = await createGame(
+    options.name?.trim() || `${source.name} (copy)`,
+    source.deck_ref,
+    source.role_assignment_type ?? "random",
+    source.max_players,
+    {
+      rule: source.ratification_rule ?? "unanimous",
+      threshold: source.ratification_threshold,
+      consentDeadlineHours: source.consent_deadline_hours,
+    },
+  );
+  if (!clone) return null;
+
+  // 2️⃣ Carry over the agreement skeleton, keyed by card
+  const skeletons: Record<string, AgreementSkeleton> = {};
+  if (options.includeAgreements) {
+    const agreements = (await getCollection<Agreement>(nodes.agreements))
+      .filter((ag) => ag && ag.game_ref === gameId)
+      .sort((a, b) => a.created_at - b.created_at);
+    for (const ag of agreements) {
+      const parties: AgreementSkeleton["parties"] = {};
+      for (const pd of Object.values(await readParties(ag.agreement_id))) {
+        if (pd.card_ref) {
+          parties[pd.card_ref] = { obligation: pd.obligation, benefit: pd.benefit };
+        }
+      }
+      if (Object.keys(parties).length === 0) continue;
+      const skeletonId = `sk_${Object.keys(skeletons).length + 1}`;
+      skeletons[skeletonId] = {
+        skeleton_id: skeletonId,
+        title: ag.title,
+        ...(ag.summary ? { summary: ag.summary } : {}),
+        type: ag.type,
+        source_agreement: ag.agreement_id,
+        parties,
+      };
+    }
+  }
+
+  // 3️⃣ Settings createGame does not take, plus provenance
+  const passwordFields = passwordHash
+    ? await storePasswordHash(clone.game_id, passwordHash)
+    : {};
+  const settings: Partial<Game> = {
+    status: GameStatus.CREATED,
+    description: source.description ?? "",
+    cloned_from: gameId,
+    ...passwordFields,
+    ...(source.role_assignment_balanced ? { role_assignment_balanced: true } : {}),
+    ...(source.max_rounds ? { max_rounds: source.max_rounds } : {}),
+    ...(source.end_when_all_cards_placed ? { end_when_all_cards_placed: true } : {}),
+    ...(source.phase_minutes ? { phase_minutes: source.phase_minutes } : {}),
+    ...(Object.keys(skeletons).length > 0
+      ? { agreement_skeletons: skeletons }
+      : {}),
+    updated_at: Date.now(),
+  };
+  await write(nodes.games, clone.game_id, settings);
+
+  console.log(`[gameService] Cloned ${gameId} → ${clone.game_id}`);
+  return { ...clone, ...settings };
+}
+
+/**
+ * Agreement skeletons carried over when this game was cloned.
+ */
+export async function getAgreementSkeletons(
+  gameId: string,
+): Promise<AgreementSkeleton[]> {
+  const base = `${nodes.games}/${gameId}/agreement_skeletons`;
+  const ids = Object.keys(
+    await getRefMap(`${nodes.games}/${gameId}`, "agreement_skeletons"),
+  );
+  const skeletons = await Promise.all(
+    ids.map(async (id) => {
+      const sk = await getField<AgreementSkeleton>(base, id);
+      if (!sk?.title) return null;
+      const cardRefs = Object.keys(await getRefMap(`${base}/${id}`, "parties"));
+      const parties: AgreementSkeleton["parties"] = {};
+      await Promise.all(
+        cardRefs.map(async (cardRef) => {
+          const t = await getField<{ obligation: string; benefit: string }>(
+            `${base}/${id}/parties`,
+            cardRef,
+          );
+          if (t) parties[cardRef] = { obligation: t.obligation ?? "", benefit: t.benefit ?? "" };
+        }),
+      );
+      return { ...sk, skeleton_id: id, parties };
+    }),
+  );
+  return skeletons
+    .filter(notNull)
+    .sort((a, b) => a.skeleton_id.localeCompare(b.skeleton_id, undefined, { numeric: true }));
+}
+
+/**
+ * Add the current user to a game's players. New players must pass the
+ * lifecycle, capacity and password checks; failures throw a typed error
+ * (`GameLifecycleError` / `GameJoinError`) whose message the UI can show.
+ */
+export async function joinGame(
+  gameId: string,
+  password?: string,
+): Promise<boolean> {
   const user = getCurrentUser();
   if (!user) return false;
 
   const game = await getGame(gameId);
   if (!game) return false;
+  assertNotObserver(game, user.user_id, "join as players; stop observing first");
+  if (!game.players?.[user.user_id] && game.creator_ref !== user.user_id) {
+    assertGameAllows(game.status, "join");
+    const storedHash = hasGamePassword(game)
+      ? await readPasswordHash(gameId, game)
+      : null;
+    await assertCanJoin(game, password, storedHash);
+    // a password still stored on the game node moves to the joiner's graph
+    if (!game.password_ref && (game.password_hash || game.password)) {
+      await write(
+        nodes.games,
+        gameId,
+        await storePasswordHash(
+          gameId,
+          game.password_hash ?? (await hashGamePassword(game.password!)),
+        ),
+      );
+    }
+  }
 
   // 1️⃣ Update the “players” map with raw user_id
   const playersMap = { ...(game.players || {}), [user.user_id]: true };
   await write(`${nodes.games}/${gameId}`, "players", playersMap);
+  if (!game.players?.[user.user_id]) {
+    await recordGameEvent(gameId, {
+      type: "player_joined",
+      summary: `${user.name} joined`,
+    });
+  }
 
   // 2️⃣ Create pointer-edge for user-games_ref only ((Don't do this it conflicts with maps, create new key for each, ie. ref_set))
   // await createRelationship(
@@ -429,71 +999,90 @@ export async function joinGame(gameId: string): Promise<boolean> {
   return true;
 }
 
-export async function leaveGame(gameId: string): Promise<boolean> {
-  const user = getCurrentUser();
-  if (!user) {
-    console.warn("[gameService] No authenticated user");
-    return false;
-  }
-  const game = await getGame(gameId);
-  if (!game) {
-    console.warn(`[gameService] Game ${gameId} not found`);
-    return false;
-  }
+// helper: drop a user from a game's players and unlink every actor they
+// played there; returns the actor they were acting as, if any
+async function removePlayer(
+  gameId: string,
+  userId: string,
+): Promise<string | undefined> {
+  // 1️⃣ Read player_actor_map and player_actors to see which actors they control
+  const pam =
+    (await getField<Record<string, string>>(
+      `${nodes.games}/${gameId}`,
+      "player_actor_map",
+    )) || {};
+  const actorId = pam[userId];
+  const controlled = await readControlledActors(gameId, userId);
 
-  try {
-    // 1️⃣ Read player_actor_map to see if they joined with an actor
-    const pam =
-      (await getField<Record<string, string>>(
-        `${nodes.games}/${gameId}`,
-        "player_actor_map",
-      )) || {};
-    const actorId = pam[user.user_id];
+  // 2️⃣ Remove user pointers (simple & full-path)
+  await Promise.all([
+    deleteKey(`${nodes.games}/${gameId}/players`, userId),
+    deleteKey(
+      `${nodes.games}/${gameId}/players`,
+      `${nodes.users}/${userId}`,
+    ),
+
+    deleteKey(`${nodes.games}/${gameId}/player_actor_map`, userId),
+    deleteKey(`${nodes.games}/${gameId}/player_actors`, userId),
+
+    deleteKey(`${nodes.users}/${userId}/games_ref`, gameId),
+    deleteKey(
+      `${nodes.users}/${userId}/games_ref`,
+      `${nodes.games}/${gameId}`,
+    ),
+  ]);
 
-    // 2️⃣ Remove user pointers (simple & full-path)
+  // 3️⃣ If they had actors in this game, clean up those refs too
+  for (const controlledId of controlled) {
     await Promise.all([
-      deleteKey(`${nodes.games}/${gameId}/players`, user.user_id),
       deleteKey(
-        `${nodes.games}/${gameId}/players`,
-        `${nodes.users}/${user.user_id}`,
+        `${nodes.games}/${gameId}/player_actor_map`,
+        `${nodes.actors}/${controlledId}`,
       ),
 
-      deleteKey(`${nodes.games}/${gameId}/player_actor_map`, user.user_id),
+      deleteKey(`${nodes.games}/${gameId}/actors_ref`, controlledId),
+      deleteKey(
+        `${nodes.games}/${gameId}/actors_ref`,
+        `${nodes.actors}/${controlledId}`,
+      ),
 
-      deleteKey(`${nodes.users}/${user.user_id}/games_ref`, gameId),
+      deleteKey(`${nodes.actors}/${controlledId}/games_ref`, gameId),
       deleteKey(
-        `${nodes.users}/${user.user_id}/games_ref`,
+        `${nodes.actors}/${controlledId}/games_ref`,
         `${nodes.games}/${gameId}`,
       ),
-    ]);
 
-    // 3️⃣ If they had an actor in this game, clean up those refs too
-    if (actorId) {
-      await Promise.all([
-        deleteKey(
-          `${nodes.games}/${gameId}/player_actor_map`,
-          `${nodes.actors}/${actorId}`,
-        ),
+      deleteKey(`${nodes.actors}/${controlledId}/cards_by_game`, gameId),
+      deleteKey(
+        `${nodes.actors}/${controlledId}/cards_by_game`,
+        `${nodes.games}/${gameId}`,
+      ),
+    ]);
+  }
 
-        deleteKey(`${nodes.games}/${gameId}/actors_ref`, actorId),
-        deleteKey(
-          `${nodes.games}/${gameId}/actors_ref`,
-          `${nodes.actors}/${actorId}`,
-        ),
+  return actorId;
+}
 
-        deleteKey(`${nodes.actors}/${actorId}/games_ref`, gameId),
-        deleteKey(
-          `${nodes.actors}/${actorId}/games_ref`,
-          `${nodes.games}/${gameId}`,
-        ),
+export async function leaveGame(gameId: string): Promise<boolean> {
+  const user = getCurrentUser();
+  if (!user) {
+    console.warn("[gameService] No authenticated user");
+    return false;
+  }
+  const game = await getGame(gameId);
+  if (!game) {
+    console.warn(`[gameService] Game ${gameId} not found`);
+    return false;
+  }
 
-        deleteKey(`${nodes.actors}/${actorId}/cards_by_game`, gameId),
-        deleteKey(
-          `${nodes.actors}/${actorId}/cards_by_game`,
-          `${nodes.games}/${gameId}`,
-        ),
-      ]);
-    }
+  try {
+    // 1️⃣–3️⃣ Unlink the user and the actor they played
+    const actorId = await removePlayer(gameId, user.user_id);
+    await recordGameEvent(gameId, {
+      type: "player_left",
+      actor_ref: actorId,
+      summary: `${user.name} left`,
+    });
 
     // 4️⃣ Self-test logs (optional)
     const playersAfter = await getField(`${nodes.games}/${gameId}`, "players");
@@ -524,26 +1113,97 @@ export async function leaveGame(gameId: string): Promise<boolean> {
   }
 }
 
-// ───────────────────────────────────────────────────_��─────────────────────────
-// Actor flows
-// ────────────────────────────────────────────────���────────────────────────────
-export async function createActor(
+// ─── Observers ──────────────────────────────────────────────────────────────
+
+// helper: observers may watch a game but never act in it
+async function assertNotObserving(
   gameId: string,
-  cardId: string,
-  actorType: Actor["actor_type"],
-  customName?: string,
-): Promise<Actor | null> {
+  userId: string,
+  action: string,
+): Promise<void> {
+  const [players, observers] = await Promise.all([
+    readMapOrSet(`${nodes.games}/${gameId}`, "players"),
+    readMapOrSet(`${nodes.games}/${gameId}`, "observers"),
+  ]);
+  assertNotObserver({ players, observers }, userId, action);
+}
+
+/**
+ * Create (or replace) the game's observer invite and return its link. Anyone
+ * holding the link can watch the game; replacing the code revokes old links.
+ */
+export async function createObserverInvite(gameId: string): Promise<string | null> {
+  if (!(await requireFacilitator(gameId, "invite observers"))) return null;
+  const code = newInviteCode();
+  await write(nodes.games, gameId, {
+    observer_invite_code: code,
+    updated_at: Date.now(),
+  });
+  return `/games/${gameId}?observe=${code}`;
+}
+
+export async function revokeObserverInvite(gameId: string): Promise<boolean> {
+  if (!(await requireFacilitator(gameId, "invite observers"))) return false;
+  await write(nodes.games, gameId, {
+    observer_invite_code: null,
+    updated_at: Date.now(),
+  });
+  return true;
+}
+
+/**
+ * Add the current user to a game's observers. Observers do not take a seat,
+ * so `max_players` and the game password do not apply, but they need the
+ * invite code unless they created the game or are an Admin. Players are
+ * left as they are.
+ */
+export async function joinAsObserver(
+  gameId: string,
+  inviteCode?: string,
+): Promise<boolean> {
   const user = getCurrentUser();
-  if (!user) return null;
+  if (!user) return false;
 
-  // Validate game and card exist
-  const [game, card] = await Promise.all([
-    get<Game>(`${nodes.games}/${gameId}`),
-    get<Card>(`${nodes.cards}/${cardId}`),
-  ]);
-  if (!game || !card) return null;
+  const game = await getGame(gameId);
+  if (!game) return false;
+  if (game.players?.[user.user_id]) return true;
+
+  const isFacilitator =
+    game.creator_ref === user.user_id || user.role === "Admin";
+  if (
+    !isFacilitator &&
+    (!game.observer_invite_code || inviteCode !== game.observer_invite_code)
+  ) {
+    throw new GameJoinError(
+      "invalid_invite",
+      "This observer link is invalid or has been revoked",
+    );
+  }
 
-  // Generate sequential actor_<n>
+  await write(`${nodes.games}/${gameId}`, "observers", {
+    [user.user_id]: true,
+  });
+  if (!game.observers?.[user.user_id]) {
+    await recordGameEvent(gameId, {
+      type: "observer_joined",
+      summary: `${user.name} is observing`,
+    });
+  }
+  return true;
+}
+
+export async function stopObserving(gameId: string): Promise<boolean> {
+  const user = getCurrentUser();
+  if (!user) return false;
+  await deleteKey(`${nodes.games}/${gameId}/observers`, user.user_id);
+  return true;
+}
+
+// ───────────────────────────────────────────────────_��─────────────────────────
+// Actor flows
+// ────────────────────────────────────────────────���────────────────────────────
+// helper: the next `count` sequential actor_<n> ids
+async function nextActorIds(count: number): Promise<string[]> {
   const existing = await getCollection<Actor>(nodes.actors);
   let max = 0;
   for (const a of existing) {
@@ -560,7 +1220,36 @@ export async function createActor(
       if (n > max) max = n;
     }
   }
-  const actorId = `actor_${max + 1}`;
+  return Array.from({ length: count }, (_, i) => `actor_${max + 1 + i}`);
+}
+
+export async function createActor(
+  gameId: string,
+  cardId: string,
+  actorType: Actor["actor_type"],
+  customName?: string,
+  legalEntity?: string,
+): Promise<Actor | null> {
+  const user = getCurrentUser();
+  if (!user) return null;
+
+  // Validate game and card exist
+  const [game, card] = await Promise.all([
+    get<Game>(`${nodes.games}/${gameId}`),
+    get<Card>(`${nodes.cards}/${cardId}`),
+  ]);
+  if (!game || !card) return null;
+  await assertNotObserving(gameId, user.user_id, "take a card");
+
+  // Rules of the actor's type
+  assertCanHoldCard(actorType, card);
+  assertLegalEntity(
+    { actor_type: actorType, legal_entity: legalEntity },
+    customName || card.role_title,
+  );
+
+  // Generate sequential actor_<n>
+  const [actorId] = await nextActorIds(1);
   const now = Date.now();
 
   // Base actor node
@@ -569,6 +1258,7 @@ export async function createActor(
     user_ref: user.user_id,
     actor_type: actorType,
     custom_name: customName || "",
+    ...(legalEntity?.trim() ? { legal_entity: legalEntity.trim() } : {}),
     status: "active",
     created_at: now,
     updated_at: now,
@@ -581,19 +1271,52 @@ export async function createActor(
   // Nested maps
   await Promise.all([
     write(`${nodes.actors}/${actorId}`, "games_ref", { [gameId]: true }),
+    write(`${nodes.actors}/${actorId}`, "game_history", { [gameId]: true }),
     write(`${nodes.actors}/${actorId}`, "cards_by_game", { [gameId]: cardId }),
   ]);
 
   // *Removed: Wire pointer-edges
 
+  await seedResources(gameId, { [actorId]: card });
+  await recordGameEvent(gameId, {
+    type: "actor_created",
+    actor_ref: actorId,
+    summary: `${user.name} created ${customName || card.role_title}`,
+  });
   return actorData;
 }
 
+/**
+ * Name the legal entity an actor acts through, e.g. for a national actor
+ * that was dealt without one. Its controller or the facilitator may set it.
+ */
+export async function setActorLegalEntity(
+  gameId: string,
+  actorId: string,
+  legalEntity: string,
+): Promise<boolean> {
+  const user = getCurrentUser();
+  if (!user) return false;
+  const entity = legalEntity.trim();
+  if (!entity) throw new Error("Enter the name of the legal entity");
+  const game = await get<Game>(`${nodes.games}/${gameId}`);
+  if (!game) return false;
+  const isFacilitator = game.creator_ref === user.user_id || user.role === "Admin";
+  if (!isFacilitator) await assertControls(gameId, user.user_id, actorId);
+  await write(nodes.actors, actorId, { legal_entity: entity, updated_at: Date.now() });
+  return true;
+}
+
 // --- Join game with existing actor ------------------
+// With `asCoalition` the user keeps the actors they already control here and
+// acts as the new one; otherwise the new actor replaces the one they had.
 export async function joinWithActor(
   gameId: string,
   actorId: string,
   cardId?: string,
+  password?: string,
+  legalEntity?: string,
+  asCoalition = false,
 ): Promise<Actor | null> {
   const user = getCurrentUser();
   if (!user) return null;
@@ -601,19 +1324,48 @@ export async function joinWithActor(
   // 1️⃣ Load game and actor existence
   const game = await getGame(gameId);
   if (!game) return null;
+  assertGameAllows(game.status, "choose_actor");
+  assertNotObserver(game, user.user_id, "take a card");
   const actorRaw = await get<Actor>(`${nodes.actors}/${actorId}`);
   if (!actorRaw) return null;
+  const [controllers, controlled] = await Promise.all([
+    readActorControllers(gameId),
+    readControlledActors(gameId, user.user_id),
+  ]);
+  if (controllers[actorId] && controllers[actorId] !== user.user_id) {
+    throw new Error("Another player already controls this actor");
+  }
+
+  // Rules of the actor's type; a legal entity given here is saved on the
+  // actor once the join has passed its checks
+  const entity = legalEntity?.trim() || actorRaw.legal_entity;
+  assertLegalEntity(
+    { actor_type: actorRaw.actor_type, legal_entity: entity },
+    actorRaw.custom_name || actorId,
+  );
+  const card = cardId ? await get<Card>(`${nodes.cards}/${cardId}`) : null;
+  if (card) assertCanHoldCard(actorRaw.actor_type, card);
 
   // 2️⃣ Join the game (adds user to players)
-  const joined = await joinGame(gameId);
+  const joined = await joinGame(gameId, password);
   if (!joined) return null;
+  if (entity && entity !== actorRaw.legal_entity) {
+    await write(nodes.actors, actorId, { legal_entity: entity });
+  }
 
-  // 3️⃣ Update nested maps on game with raw IDs
+  // 3️⃣ Update nested maps on game with raw IDs; the user acts as the new actor
   const pamMap = { ...(game.player_actor_map || {}), [user.user_id]: actorId };
   const actorsRef = { ...(game.actors_ref || {}), [actorId]: true };
+  const coalition = Object.fromEntries([
+    ...controlled
+      .filter((aid) => aid !== actorId)
+      .map((aid) => [aid, asCoalition ? true : null]),
+    [actorId, true],
+  ]);
 
   await Promise.all([
     write(`${nodes.games}/${gameId}`, "player_actor_map", pamMap),
+    write(`${nodes.games}/${gameId}/player_actors`, user.user_id, coalition),
     write(`${nodes.games}/${gameId}`, "actors_ref", actorsRef),
   ]);
 
@@ -624,20 +1376,231 @@ export async function joinWithActor(
       "cards_by_game",
     )) || {};
 
-  // 5️⃣ Update cards_by_game with cardId or null
+  // 5️⃣ Update cards_by_game with cardId or null, and the actor's games
   const cardsByGame = { ...existingCards, [gameId]: cardId || null };
-  await write(`${nodes.actors}/${actorId}`, "cards_by_game", cardsByGame);
+  await Promise.all([
+    write(`${nodes.actors}/${actorId}`, "cards_by_game", cardsByGame),
+    write(`${nodes.actors}/${actorId}`, "games_ref", { [gameId]: true }),
+    write(`${nodes.actors}/${actorId}`, "game_history", { [gameId]: true }),
+  ]);
+  if (existingCards[gameId] !== cardsByGame[gameId]) {
+    await seedResources(gameId, { [actorId]: card }, await getResourceLedger(gameId));
+  }
+  await recordGameEvent(gameId, {
+    type: "actor_chosen",
+    actor_ref: actorId,
+    summary: `${user.name} plays ${actorRaw.custom_name || actorId}`,
+  });
 
   // 6️⃣ *Removed Wire pointer-edges
 
   // 7️⃣ Return updated actor
   return {
     ...actorRaw,
+    ...(entity ? { legal_entity: entity } : {}),
     cards_by_game: cardsByGame,
     games_ref: { ...(actorRaw.games_ref || {}), [gameId]: true },
   };
 }
 
+// ─── Random role assignment ─────────────────────────────────────────────────
+
+// helper: does moving a game into `to` deal roles automatically?
+function dealsRolesOn(game: Game, to: GameStatus): boolean {
+  return (
+    game.role_assignment_type !== "player-choice" &&
+    (to === GameStatus.SETUP || to === GameStatus.ACTIVE)
+  );
+}
+
+/**
+ * Deal a card from the deck's unused cards to every player who has none in
+ * this game, creating an actor for players who have not chosen one. The deal
+ * is driven by a seeded shuffle, so the same seed on the same players and
+ * cards reproduces it; `reshuffle` (before the game starts only) re-deals
+ * every player instead of just the ones without a card.
+ * Only the creator or an Admin may deal; the game must use random roles.
+ */
+export async function assignRandomRoles(
+  gameId: string,
+  options: { seed?: string; balanceByCategory?: boolean; reshuffle?: boolean } = {},
+): Promise<RoleAssignment | null> {
+  const user = getCurrentUser();
+  if (!user) return null;
+  const game = await get<Game>(`${nodes.games}/${gameId}`);
+  if (!game) {
+    console.warn(`[gameService] Game not found: ${gameId}`);
+    return null;
+  }
+  if (game.creator_ref !== user.user_id && user.role !== "Admin") {
+    throw new Error("Only the game creator or an admin can assign roles");
+  }
+  if (game.role_assignment_type === "player-choice") {
+    throw new Error("Players choose their own roles in this game");
+  }
+  assertGameAllows(game.status, "choose_actor");
+  if (
+    options.reshuffle &&
+    game.status !== GameStatus.CREATED &&
+    game.status !== GameStatus.SETUP
+  ) {
+    throw new Error("Roles can only be reshuffled before the game starts");
+  }
+
+  // 1️⃣ Players, their actors and the deck
+  const [players, pam, actorsRef, deckCardMap] = await Promise.all([
+    readMapOrSet(`${nodes.games}/${gameId}`, "players"),
+    readPlayerActorMap(gameId),
+    getRefMap(`${nodes.games}/${gameId}`, "actors_ref"),
+    getRefMap(`${nodes.decks}/${game.deck_ref}`, "cards_ref"),
+  ]);
+  const playerIds = Object.keys(players);
+
+  // 2️⃣ Which card each actor in the game already holds
+  const actorIds = [
+    ...new Set([
+      ...Object.keys(actorsRef),
+      ...Object.values(pam).filter(notNull),
+    ]),
+  ];
+  const held: Record<string, string> = {};
+  await Promise.all(
+    actorIds.map(async (aid) => {
+      const cardsByGame = await getMap(`${nodes.actors}/${aid}`, "cards_by_game");
+      if (cardsByGame[gameId]) held[aid] = cardsByGame[gameId];
+    }),
+  );
+
+  // 3️⃣ Players to deal to, and the cards still free for them
+  const needy = playerIds.filter(
+    (uid) => options.reshuffle || !pam[uid] || !held[pam[uid]!],
+  );
+  const dealt = new Set(needy.map((uid) => pam[uid]).filter(notNull));
+  const taken = new Set(
+    Object.entries(held)
+      .filter(([aid]) => !dealt.has(aid))
+      .map(([, cardId]) => cardId),
+  );
+  const freeCards = (
+    await Promise.all(
+      Object.keys(deckCardMap)
+        .filter((cardId) => !taken.has(cardId))
+        .map((cardId) => get<Card>(`${nodes.cards}/${cardId}`)),
+    )
+  ).filter(notNull);
+
+  // 4️⃣ Shuffle and deal
+  const seed = options.seed?.trim() || newSeed();
+  const balanced = options.balanceByCategory ?? !!game.role_assignment_balanced;
+  const cardFor = dealCards(needy, freeCards, {
+    seed,
+    balanceByCategory: balanced,
+  });
+
+  // 5️⃣ Give players without an actor a fresh one
+  const newcomers = needy.filter((uid) => cardFor[uid] && !pam[uid]);
+  const newIds = await nextActorIds(newcomers.length);
+  const actorFor: Record<string, string> = Object.fromEntries(
+    newcomers.map((uid, i) => [uid, newIds[i]]),
+  );
+
+  // 6️⃣ Write each actor's card first, so the map never points at a card-less actor
+  const now = Date.now();
+  const deal: RoleAssignment["deal"] = {};
+  await Promise.all(
+    needy.map(async (uid) => {
+      const cardId = cardFor[uid];
+      const existing = pam[uid];
+      if (!cardId) {
+        // reshuffled players left over lose their previous card
+        if (existing && held[existing]) {
+          await write(`${nodes.actors}/${existing}`, "cards_by_game", {
+            [gameId]: null,
+          });
+        }
+        return;
+      }
+      const actorId = existing ?? actorFor[uid];
+      deal[uid] = { actor_ref: actorId, card_ref: cardId };
+      if (existing) {
+        await Promise.all([
+          write(`${nodes.actors}/${actorId}`, "cards_by_game", {
+            [gameId]: cardId,
+          }),
+          write(`${nodes.actors}/${actorId}`, "games_ref", { [gameId]: true }),
+          write(`${nodes.actors}/${actorId}`, "game_history", { [gameId]: true }),
+        ]);
+        return;
+      }
+      // fresh actors take whichever type may hold the dealt card; national
+      // ones act through their player until they name another legal entity
+      const card = freeCards.find((c) => c.card_id === cardId);
+      const actorType = card ? actorTypeForCard(card) : "National Identity";
+      const playerName = rulesFor(actorType).requiresLegalEntity
+        ? (await get<User>(`${nodes.users}/${uid}`))?.name?.trim()
+        : undefined;
+      const actorData: Actor = {
+        actor_id: actorId,
+        user_ref: uid,
+        actor_type: actorType,
+        ...(playerName ? { legal_entity: playerName } : {}),
+        custom_name: "",
+        status: "active",
+        created_at: now,
+        updated_at: now,
+        games_ref: { [gameId]: true },
+        game_history: { [gameId]: true },
+        cards_by_game: { [gameId]: cardId },
+        agreements_ref: {},
+      };
+      await write(nodes.actors, actorId, actorData);
+    }),
+  );
+
+  // 7️⃣ One put on the game node for player_actor_map, actors_ref and the seed
+  const playerActorMap: Record<string, string> = {};
+  const actorRefs: Record<string, boolean> = {};
+  for (const [uid, { actor_ref }] of Object.entries(deal)) {
+    playerActorMap[uid] = actor_ref;
+    actorRefs[actor_ref] = true;
+  }
+  await write(nodes.games, gameId, {
+    player_actor_map: playerActorMap,
+    actors_ref: actorRefs,
+    role_assignment_seed: seed,
+    role_assignment_balanced: balanced,
+    roles_assigned_at: now,
+    updated_at: now,
+  });
+
+  // 8️⃣ Seed the dealt actors' resources (a reshuffle replaces old seeds)
+  const cardById = new Map(freeCards.map((c) => [c.card_id, c]));
+  const seededCards: Record<string, Card | null> = Object.fromEntries(
+    needy
+      .map((uid) => deal[uid]?.actor_ref ?? pam[uid])
+      .filter(notNull)
+      .map((aid) => [aid, null]),
+  );
+  for (const { actor_ref, card_ref } of Object.values(deal)) {
+    seededCards[actor_ref] = cardById.get(card_ref) ?? null;
+  }
+  await seedResources(
+    gameId,
+    seededCards,
+    options.reshuffle ? await getResourceLedger(gameId) : undefined,
+  );
+
+  const unassigned = needy.filter((uid) => !deal[uid]);
+  console.log(
+    `[gameService] Dealt ${Object.keys(deal).length} roles in ${gameId} (seed ${seed})`,
+  );
+  await recordGameEvent(gameId, {
+    type: "roles_assigned",
+    summary: `${Object.keys(deal).length} roles dealt (seed ${seed})`,
+  });
+  return { seed, balanced, deal, unassigned };
+}
+
 /**
  * Remove an actor and all its relationships.
  */
@@ -679,8 +1642,9 @@ export async function deleteActor(actorId: string): Promise<boolean> {
         `${nodes.games}/${gameId}/actors_ref`,
         `${nodes.actors}/${actorId}`,
       ),
-      // remove from game.player_actor_map
+      // remove from game.player_actor_map and the user's coalition
       deleteKey(`${nodes.games}/${gameId}/player_actor_map`, userId),
+      deleteKey(`${nodes.games}/${gameId}/player_actors/${userId}`, actorId),
       deleteKey(
         `${nodes.games}/${gameId}/player_actor_map`,
         `${nodes.actors}/${actorId}`,
@@ -701,6 +1665,7 @@ export async function deleteActor(actorId: string): Promise<boolean> {
   await write(nodes.actors, actorId, null);
   await Promise.all([
     write(`${nodes.actors}/${actorId}`, "games_ref", null),
+    write(`${nodes.actors}/${actorId}`, "game_history", null),
     write(`${nodes.actors}/${actorId}`, "cards_by_game", null),
     write(`${nodes.actors}/${actorId}`, "agreements_ref", null),
   ]);
@@ -721,14 +1686,57 @@ export async function createAgreement(
   terms: Record<
     string,
     {
-      obligations: string[];
-      benefits: string[];
+      obligations: (string | TermDraft)[];
+      benefits: (string | TermDraft)[];
+      jurisdiction?: string; // Sovereign parties only
     }
   >,
+  type: Agreement["type"] = "asymmetric",
+  timing: {
+    starts_at?: number;
+    expires_at?: number;
+    renewal?: AgreementRenewal;
+  } = {},
 ): Promise<AgreementWithPosition | null> {
   const user = getCurrentUser();
   if (!user) return null;
 
+  const game = await get<Game>(`${nodes.games}/${gameId}`);
+  assertGameAllows(game?.status, "create_agreement");
+  assertPhaseAllows(game, "propose");
+  await assertNotObserving(gameId, user.user_id, "propose agreements");
+
+  // Players propose for any actor of their coalition; the facilitator may
+  // broker deals between others
+  const isFacilitator =
+    game?.creator_ref === user.user_id || user.role === "Admin";
+  const controlled = await readControlledActors(gameId, user.user_id);
+  if (!isFacilitator && !parties.some((aid) => controlled.includes(aid))) {
+    throw new Error("One of your actors must be a party to the agreement");
+  }
+
+  if (
+    timing.expires_at !== undefined &&
+    timing.expires_at <= (timing.starts_at ?? Date.now())
+  ) {
+    throw new Error("An agreement must expire after it starts");
+  }
+
+  // Symmetric agreements bind every party to the same terms
+  if (
+    type === "symmetric" &&
+    !hasSharedTerms(
+      parties.map((aid) => ({
+        obligation: joinTerms(terms[aid]?.obligations),
+        benefit: joinTerms(terms[aid]?.benefits),
+      })),
+    )
+  ) {
+    throw new Error(
+      "Symmetric agreements need identical obligations and benefits for every party",
+    );
+  }
+
   // ─── 1️⃣ Generate a random 5‐digit ID ─────────────────────────────────────────
   const existingRaw = await getCollection<Agreement>(nodes.agreements);
   const existing = existingRaw.filter((a) => a && a.agreement_id); // Filter out null
@@ -743,29 +1751,30 @@ export async function createAgreement(
 
   const now = Date.now();
 
-  // 2️⃣ Build minimal partiesRecord
-  const partiesRecord: Record<
-    string,
-    {
-      card_ref: string;
-      obligation: string;
-      benefit: string;
-    }
-  > = {};
+  // 2️⃣ Build minimal partiesRecord, applying each party's actor-type rules
+  const partiesRecord: Agreement["parties"] = {};
   for (const aid of parties) {
-    const map = await getField<Record<string, string>>(
-      `${nodes.actors}/${aid}`,
-      "cards_by_game",
-    );
+    const [map, actor] = await Promise.all([
+      getField<Record<string, string>>(`${nodes.actors}/${aid}`, "cards_by_game"),
+      get<Actor>(`${nodes.actors}/${aid}`),
+    ]);
     const cardRef = map?.[gameId];
-    if (!cardRef) {
+    if (!cardRef || !actor) {
       console.warn(`[gameService] Actor ${aid} has no card for game ${gameId}`);
       continue;
     }
+    const name = actor.custom_name || aid;
+    const jurisdiction = terms[aid]?.jurisdiction?.trim();
+    assertLegalEntity(actor, name);
+    assertJurisdictionAllowed(actor, jurisdiction, name);
     partiesRecord[aid] = {
       card_ref: cardRef,
-      obligation: terms[aid]?.obligations.join("; ") ?? "",
-      benefit: terms[aid]?.benefits.join("; ") ?? "",
+      obligation: joinTerms(terms[aid]?.obligations),
+      benefit: joinTerms(terms[aid]?.benefits),
+      ...(rulesFor(actor.actor_type).requiresLegalEntity
+        ? { legal_entity: actor.legal_entity!.trim() }
+        : {}),
+      ...(jurisdiction ? { jurisdiction } : {}),
     };
   }
 
@@ -785,26 +1794,75 @@ export async function createAgreement(
     Object.keys(partiesRecord).map((aid) => [aid, "pending"] as const),
   );
 
-  // 4️⃣ Build complete agreement object
+  // 4️⃣ Snapshot the game's ratification policy onto the agreement, with
+  // the party proposing it (the acting actor first) for creator-plus-one
+  const creatorActor = controlled.find((aid) => aid in partiesRecord);
+  const ratificationRule = game?.ratification_rule ?? "unanimous";
+  const consentHours = game?.consent_deadline_hours ?? 24;
+
+  // 5️⃣ Build complete agreement object
   const agreementData: Agreement = {
     agreement_id: agreementId,
     game_ref: gameId,
     creator_ref: user.user_id,
+    ...(creatorActor ? { creator_actor_ref: creatorActor } : {}),
     title,
     summary: description,
-    type: "asymmetric",
+    type,
     status: AgreementStatus.PROPOSED,
     parties: partiesRecord,
     cards_ref,
     votes,
+    ratification_rule: ratificationRule,
+    ...(ratificationRule === "supermajority" && game?.ratification_threshold
+      ? { ratification_threshold: game.ratification_threshold }
+      : {}),
+    ...(ratificationRule === "consent"
+      ? { vote_deadline: now + consentHours * 60 * 60 * 1000 }
+      : {}),
+    ...(timing.starts_at !== undefined ? { starts_at: timing.starts_at } : {}),
+    ...(timing.expires_at !== undefined
+      ? { expires_at: timing.expires_at, renewal: timing.renewal ?? "none" }
+      : {}),
+    ...(hasRounds(game) ? { proposed_round: game!.current_round } : {}),
+    current_revision: 0,
     created_at: now,
     updated_at: now,
   };
 
-  // 5️⃣ Write agreement atomically
+  // 6️⃣ Write agreement atomically, with its original terms as revision 0
   await write(nodes.agreements, agreementId, agreementData);
+  await writeRevision(agreementId, {
+    revision_id: "rev_0",
+    number: 0,
+    proposed_by: user.user_id,
+    title,
+    summary: description,
+    changes: diffTerms(
+      {},
+      Object.fromEntries(
+        Object.entries(partiesRecord).map(([aid, p]) => [
+          aid,
+          { obligation: p.obligation, benefit: p.benefit },
+        ]),
+      ),
+    ),
+    created_at: now,
+  });
+
+  // Structured obligation/benefit items for fulfilment tracking
+  await Promise.all(
+    Object.keys(partiesRecord).map((aid) =>
+      writePartyItems(
+        agreementId,
+        aid,
+        (terms[aid]?.obligations ?? []).map(toDraft),
+        (terms[aid]?.benefits ?? []).map(toDraft),
+      ),
+    ),
+  );
 
-  // 6️⃣ Write simple boolean map to agreements_ref
+  // 7️⃣ Write simple boolean map to agreements_ref
   const soul = `${nodes.games}/${gameId}`;
   // read the map
   const current =
@@ -813,7 +1871,7 @@ export async function createAgreement(
   // write it back under the “agreements_ref” key
   await write(soul, "agreements_ref", current);
 
-  // 7️⃣ Keep commented-out createRelationship calls
+  // 8️⃣ Keep commented-out createRelationship calls
   // await Promise.all([
   //   createRelationship(
   //     `${nodes.games}/${gameId}`,
@@ -843,7 +1901,7 @@ export async function createAgreement(
   //   ),
   // ]);
 
-  // 8️⃣ Verify write
+  // 9️⃣ Verify write
   const savedAgreement = await get<Agreement>(
     `${nodes.agreements}/${agreementId}`,
   );
@@ -855,7 +1913,13 @@ export async function createAgreement(
     return null;
   }
 
-  // 9️⃣ Return for UI
+  await recordGameEvent(gameId, {
+    type: "agreement_proposed",
+    target_ref: agreementId,
+    summary: `${user.name} proposed "${title}"`,
+  });
+
+  // 🔟 Return for UI
   return {
     ...savedAgreement,
     position: randomPos(),
@@ -866,6 +1930,35 @@ export async function updateAgreement(
   agreementId: string,
   updateData: Partial<Agreement>,
 ): Promise<boolean> {
+  if (
+    updateData.status === AgreementStatus.COMPLETED &&
+    !(await isAgreementFulfilled(agreementId))
+  ) {
+    throw new Error(
+      "Every obligation must be checked off by the counterparties before the agreement is completed",
+    );
+  }
+  const current = updateData.status
+    ? await get<Agreement>(`${nodes.agreements}/${agreementId}`)
+    : null;
+  // a completed game is frozen along with its final summary
+  const game = current ? await get<Game>(`${nodes.games}/${current.game_ref}`) : null;
+  if (game && effectiveStatus(game.status) === GameStatus.COMPLETED) {
+    throw new Error("This game is completed");
+  }
+  // acceptance must respect prerequisite / exclusive / supersedes relations
+  let becameAccepted = false;
+  if (updateData.status === AgreementStatus.ACCEPTED) {
+    becameAccepted = current?.status !== AgreementStatus.ACCEPTED;
+    const reason = becameAccepted
+      ? dependencyBlock(await readDependencyRelations(agreementId))
+      : null;
+    if (reason) throw new Error(`This agreement cannot be accepted yet: ${reason}`);
+    // remember the round it was ratified in
+    if (becameAccepted && hasRounds(game)) {
+      updateData.ratified_round = game!.current_round;
+    }
+  }
   updateData.updated_at = Date.now();
   // write partial fields directly under the agreement node
   await Promise.all(
@@ -873,572 +1966,3337 @@ export async function updateAgreement(
       write(`${nodes.agreements}/${agreementId}`, k, v),
     ),
   );
+  if (current && updateData.status !== current.status) {
+    await recordGameEvent(current.game_ref, {
+      type: "agreement_status",
+      target_ref: agreementId,
+      summary: `"${current.title}" is now ${updateData.status}`,
+    });
+  }
+  if (becameAccepted) {
+    await applyDependencyEffects(agreementId);
+    const gameRef = (await get<Agreement>(`${nodes.agreements}/${agreementId}`))?.game_ref;
+    if (gameRef) await evaluateGameEnd(gameRef);
+  }
   return true;
 }
 
-// helper: remove every set-edge under `fromSoul/field`
-async function removeEdges(fromSoul: string, field: string) {
-  const g = getGun();
-  if (!g) throw new Error("[gameService] Gun not initialized");
-  await new Promise<void>((resolve) => {
-    let done = false;
-    const timer = setTimeout(() => {
-      if (!done) {
-        done = true;
-        resolve();
+// ─────────────────────────────────────────────────────────────────────────────
+// Agreement voting
+// ─────────────────────────────────────────────────────────────────────────────
+
+// helper: read a game's player→actor map without Gun metadata keys
+async function readPlayerActorMap(
+  gameId: string,
+): Promise<Record<string, string | null>> {
+  const raw =
+    (await getField<Record<string, string | null>>(
+      `${nodes.games}/${gameId}`,
+      "player_actor_map",
+    )) || {};
+  return Object.fromEntries(
+    Object.entries(raw).filter(
+      ([k]) => k !== "#" && !k.startsWith("#") && k !== "actors/null",
+    ),
+  );
+}
+
+// helper: every actor a user controls in a game — the one they are acting as
+// (player_actor_map) plus the rest of their coalition (player_actors). Games
+// saved before coalition play only have the single-valued map.
+async function readControlledActors(
+  gameId: string,
+  userId: string,
+): Promise<string[]> {
+  const [pam, coalition] = await Promise.all([
+    readPlayerActorMap(gameId),
+    getRefMap(`${nodes.games}/${gameId}/player_actors`, userId),
+  ]);
+  return [...new Set([pam[userId], ...Object.keys(coalition)].filter(notNull))];
+}
+
+// helper: every actor each user controls in a game, keyed by user; the
+// single-valued map also covers players no longer in `players`
+async function readCoalitions(
+  gameId: string,
+): Promise<Record<string, Record<string, boolean>>> {
+  const [pam, players] = await Promise.all([
+    readPlayerActorMap(gameId),
+    readMapOrSet(`${nodes.games}/${gameId}`, "players"),
+  ]);
+  const userIds = [...new Set([...Object.keys(players), ...Object.keys(pam)])];
+  const coalitions: Record<string, Record<string, boolean>> = {};
+  await Promise.all(
+    userIds.map(async (uid) => {
+      const controlled = await readControlledActors(gameId, uid);
+      if (controlled.length) {
+        coalitions[uid] = Object.fromEntries(controlled.map((aid) => [aid, true]));
       }
-    }, 1000);
+    }),
+  );
+  return coalitions;
+}
 
-    g.get(fromSoul)
-      .get(field)
-      .map()
-      .once((edgeValue: any) => {
-        if (done) return;
-        g.get(fromSoul)
-          .get(field)
-          .unset(edgeValue, () => {
-            if (!done) {
-              clearTimeout(timer);
-              done = true;
-              resolve();
-            }
-          });
-      });
-  });
+// helper: the user controlling each actor of a game
+async function readActorControllers(
+  gameId: string,
+): Promise<Record<string, string>> {
+  const controllers: Record<string, string> = {};
+  Object.entries(await readCoalitions(gameId)).forEach(([uid, actors]) =>
+    Object.keys(actors).forEach((aid) => (controllers[aid] ??= uid)),
+  );
+  return controllers;
+}
+
+// helper: throw unless the user controls `actorId` in the game
+async function assertControls(
+  gameId: string,
+  userId: string,
+  actorId: string,
+): Promise<void> {
+  if (!(await readControlledActors(gameId, userId)).includes(actorId)) {
+    throw new Error(`You do not control actor ${actorId} in this game`);
+  }
 }
 
 /**
- * Remove an agreement and all its relationships.
+ * Every actor the current user controls in a game, the one they are acting
+ * as first. Empty for observers and users who have not joined.
  */
-export async function deleteAgreement(agreementId: string): Promise<boolean> {
-  console.log(`[gameService] ▶ deleteAgreement(${agreementId})`);
-
-  // 1️⃣ Load the root agreement
-  const agr = await get<Agreement>(`${nodes.agreements}/${agreementId}`);
-  if (!agr) {
-    console.warn(`[gameService] Agreement not found: ${agreementId}`);
-    return false;
-  }
+export async function getControlledActors(gameId: string): Promise<string[]> {
+  const user = getCurrentUser();
+  if (!user) return [];
+  return readControlledActors(gameId, user.user_id);
+}
 
-  // 2️⃣ Load nested maps
-  const partiesRecord =
-    (await getField<Record<string, { card_ref: string }>>(
-      `${nodes.agreements}/${agreementId}`,
-      "parties",
-    )) || {};
-  const gameId =
-    agr.game_ref ||
-    (await getField<string>(
-      `${nodes.agreements}/${agreementId}`,
-      "game_ref",
-    )) ||
-    "";
-  const creatorId =
-    agr.creator_ref ||
-    (await getField<string>(
-      `${nodes.agreements}/${agreementId}`,
-      "creator_ref",
-    )) ||
-    "";
-
-  console.log("[gameService] fetched agreement:", agr);
-  console.log("[gameService] loaded partiesRecord:", partiesRecord);
+/**
+ * Act as another actor of the current user's coalition: proposals, votes and
+ * other per-actor moves default to this actor from now on.
+ */
+export async function switchActingActor(
+  gameId: string,
+  actorId: string,
+): Promise<boolean> {
+  const user = getCurrentUser();
+  if (!user) return false;
+  await assertControls(gameId, user.user_id, actorId);
+  await write(`${nodes.games}/${gameId}`, "player_actor_map", {
+    [user.user_id]: actorId,
+  });
+  return true;
+}
 
-  // 3️⃣ Remove edges
-  console.log("[gameService] unsetting edges...");
-  await Promise.all([
-    removeEdges(`${nodes.games}/${gameId}`, "agreements_ref"),
-    removeEdges(`${nodes.users}/${creatorId}`, "agreements_ref"),
-    ...Object.keys(partiesRecord).map((actorId) =>
-      removeEdges(`${nodes.actors}/${actorId}`, "agreements_ref"),
-    ),
-    ...Object.values(partiesRecord).map(({ card_ref }) =>
-      removeEdges(`${nodes.cards}/${card_ref}`, "agreements_ref"),
+// helper: strip Gun metadata from a votes node
+function cleanVotes(
+  raw: Record<string, any> | null | undefined,
+): Record<string, AgreementVote> {
+  return Object.fromEntries(
+    Object.entries(raw || {}).filter(
+      ([k, v]) =>
+        k !== "_" &&
+        k !== "#" &&
+        (v === "accept" || v === "reject" || v === "pending"),
     ),
-  ]);
-
-  console.log("[gameService] all edges removed, deleting node");
-
-  // 4️⃣ Delete the node and its nested maps
-  await write(nodes.agreements, agreementId, null);
-  await Promise.all([
-    write(`${nodes.agreements}/${agreementId}`, "parties", null),
-    write(`${nodes.agreements}/${agreementId}`, "cards_ref", null),
-    write(`${nodes.agreements}/${agreementId}`, "votes", null),
-    write(`${nodes.agreements}/${agreementId}`, "game_ref", null),
-    write(`${nodes.agreements}/${agreementId}`, "creator_ref", null),
-  ]);
+  ) as Record<string, AgreementVote>;
+}
 
-  console.log(`[gameService] ✅ deleteAgreement complete for ${agreementId}`);
+// helper: the ratification policy an agreement was proposed under; older
+// agreements without `creator_actor_ref` fall back to the creator's actor
+function agreementPolicy(
+  agreement: Agreement,
+  pam: Record<string, string | null>,
+): RatificationPolicy {
+  return {
+    rule: agreement.ratification_rule ?? "unanimous",
+    threshold: agreement.ratification_threshold,
+    deadline: agreement.vote_deadline,
+    creatorActorId:
+      agreement.creator_actor_ref ?? pam[agreement.creator_ref] ?? null,
+  };
+}
 
-  return true;
+/**
+ * Read the current per-party votes of an agreement.
+ */
+export async function getAgreementVotes(
+  agreementId: string,
+): Promise<Record<string, AgreementVote>> {
+  const raw = await getField<Record<string, any>>(
+    `${nodes.agreements}/${agreementId}`,
+    "votes",
+  );
+  return cleanVotes(raw);
 }
 
 /**
- * Delete a game and all its relationships.
+ * Cast `actorId`'s vote on a proposed agreement. The current user must control
+ * that actor in the agreement's game (via `player_actor_map`). Once the vote is
+ * recorded the tally is evaluated against the agreement's ratification rule and
+ * the agreement moves to ACCEPTED or REJECTED as soon as the outcome is decided.
  */
-export async function deleteGame(gameId: string): Promise<boolean> {
-  console.log(`[gameService] ▶ deleteGame(${gameId})`);
+export async function castVote(
+  agreementId: string,
+  actorId: string,
+  vote: "accept" | "reject",
+): Promise<Agreement | null> {
+  const user = getCurrentUser();
+  if (!user) return null;
 
-  // 1️⃣ Load the root game
-  const game = await get<Game>(`${nodes.games}/${gameId}`);
-  if (!game) {
-    console.warn(`[gameService] Game not found: ${gameId}`);
-    return false;
+  // 1️⃣ Load the agreement and its party votes
+  const agreement = await get<Agreement>(`${nodes.agreements}/${agreementId}`);
+  if (!agreement) {
+    console.warn(`[gameService] Agreement not found: ${agreementId}`);
+    return null;
+  }
+  if (agreement.status !== AgreementStatus.PROPOSED) {
+    throw new Error(`Agreement is already ${agreement.status}`);
+  }
+  const game = await get<Game>(`${nodes.games}/${agreement.game_ref}`);
+  assertGameAllows(game?.status, "vote");
+  assertPhaseAllows(game, "vote");
+  await assertNotObserving(agreement.game_ref, user.user_id, "vote");
+  const votes = await getAgreementVotes(agreementId);
+  if (!(actorId in votes)) {
+    throw new Error(`Actor ${actorId} is not a party to this agreement`);
   }
 
-  // 2️⃣ Load nested maps to clean up relationships - fix the Promise.all with proper async
-  const [playersMap, actorsRefMap, agreementsRefMap, playerActorMap] = await Promise.all([
-    getField<Record<string, boolean>>(`${nodes.games}/${gameId}`, "players"),
-    getField<Record<string, boolean>>(`${nodes.games}/${gameId}`, "actors_ref"),
-    getField<Record<string, boolean>>(`${nodes.games}/${gameId}`, "agreements_ref"),
-    getField<Record<string, string>>(`${nodes.games}/${gameId}`, "player_actor_map"),
-  ]);
-
-  console.log("[gameService] fetched game:", game);
-  console.log("[gameService] loaded playersMap:", playersMap);
-  console.log("[gameService] loaded actorsRefMap:", actorsRefMap);
-
-  // 3️⃣ Remove edges using removeEdges helper (consistent with deleteActor/deleteAgreement)
-  console.log("[gameService] cleaning up relationships...");
-  await Promise.all([
-    // Remove ref_set edges (matches createGame structure)
-    removeEdges(`${nodes.games}/${gameId}`, "ref_set"),
-    // Clean up nested map references from related entities
-    ...Object.keys(playersMap || {}).map(userId => 
-      removeEdges(`${nodes.users}/${userId}`, "games_ref")
-    ),
-    ...Object.keys(actorsRefMap || {}).map(actorId => 
-      removeEdges(`${nodes.actors}/${actorId}`, "games_ref")
-    ),
-    ...Object.keys(agreementsRefMap || {}).map(agreementId => 
-      removeEdges(`${nodes.agreements}/${agreementId}`, "game_ref")
-    ),
-  ]);
+  // 2️⃣ The voter must control the actor in this game
+  await assertControls(agreement.game_ref, user.user_id, actorId);
+  const pam = await readPlayerActorMap(agreement.game_ref);
 
-  console.log("[gameService] all relationships cleaned, deleting game node");
+  // 3️⃣ Record the vote
+  await write(`${nodes.agreements}/${agreementId}/votes`, actorId, vote);
+  const updatedVotes = { ...votes, [actorId]: vote };
 
-  // 4️⃣ Delete the game node and its nested maps using write(..., null) pattern
-  await write(nodes.games, gameId, null);
-  await Promise.all([
-    write(`${nodes.games}/${gameId}`, "players", null),
-    write(`${nodes.games}/${gameId}`, "actors_ref", null),
-    write(`${nodes.games}/${gameId}`, "agreements_ref", null),
-    write(`${nodes.games}/${gameId}`, "player_actor_map", null),
-    write(`${nodes.games}/${gameId}`, "chat_rooms_ref", null),
-    write(`${nodes.games}/${gameId}`, "ref_set", null),
-  ]);
+  // 4️⃣ Resolve the status from the full tally under the game's policy;
+  // an accepted tally waits while a prerequisite is still outstanding
+  let status = resolveRatification(
+    updatedVotes,
+    agreementPolicy(agreement, pam),
+  );
+  if (status === AgreementStatus.ACCEPTED) {
+    const reason = dependencyBlock(await readDependencyRelations(agreementId));
+    if (reason) {
+      console.log(`[gameService] ${agreementId} accepted by vote but held: ${reason}`);
+      status = AgreementStatus.PROPOSED;
+    }
+  }
+  await recordGameEvent(agreement.game_ref, {
+    type: "vote_cast",
+    actor_ref: actorId,
+    target_ref: agreementId,
+    summary: `${actorId} voted ${vote} on "${agreement.title}"`,
+  });
+  const now = Date.now();
+  await updateAgreement(agreementId, { status, updated_at: now });
 
-  console.log(`[gameService] ✅ deleteGame complete for ${gameId}`);
-  return true;
+  console.log(
+    `[gameService] ${actorId} voted ${vote} on ${agreementId} → ${status}`,
+  );
+  return { ...agreement, status, votes: updatedVotes, updated_at: now };
 }
 
-// ─────────────────────────────────────────────────────────────────────────────
-// Deck flows
-// ─────────────────────────────────────────────────────────────────────────────
-
 /**
- * Create a new deck with a sequential ID (d_1, d_2, …)
+ * Re-evaluate a proposed agreement whose consent deadline has passed, so that
+ * silent parties count as accepting even if nobody votes again.
  */
-export async function createDeck(
-  name: string,
-  description: string,
-  isPublic: boolean = false,
-): Promise<Deck | null> {
-  const user = getCurrentUser();
-  if (!user) return null;
-
-  // 1️⃣ find highest existing d_<num>
-  const existing = await getCollection<Deck>(nodes.decks);
-  let maxNum = 0;
-  for (const d of existing) {
-    const m = d.deck_id.match(/^d_(\d+)$/);
-    if (m) {
-      const n = parseInt(m[1], 10);
-      if (n > maxNum) maxNum = n;
+async function settleVoteDeadline(
+  agreement: Agreement,
+  votes: Record<string, AgreementVote>,
+): Promise<AgreementStatus> {
+  if (
+    agreement.status !== AgreementStatus.PROPOSED ||
+    !agreement.vote_deadline ||
+    Date.now() < agreement.vote_deadline
+  ) {
+    return agreement.status;
+  }
+  const pam = await readPlayerActorMap(agreement.game_ref);
+  const status = resolveRatification(votes, agreementPolicy(agreement, pam));
+  if (status !== agreement.status) {
+    try {
+      await updateAgreement(agreement.agreement_id, { status });
+    } catch (error) {
+      // held back by an outstanding prerequisite; stays proposed
+      console.warn(`[gameService] ${agreement.agreement_id}:`, error);
+      return agreement.status;
     }
   }
+  return status;
+}
 
-  // 2️⃣ pick next
-  const deckId = `d_${maxNum + 1}`;
+/**
+ * Apply an accepted agreement's expiry (see `resolveExpiry`): it either ends
+ * as EXPIRED, rolls forward when auto-renewing, or goes back to PROPOSED for
+ * renegotiation with every vote reset to pending.
+ * Returns the agreement and votes as they stand afterwards.
+ */
+async function settleExpiry(
+  agreement: Agreement,
+  votes: Record<string, AgreementVote>,
+): Promise<{ agreement: Agreement; votes: Record<string, AgreementVote> }> {
   const now = Date.now();
+  const next = resolveExpiry(agreement, now);
+  if (!next) return { agreement, votes };
 
-  // 3️⃣ write root deck
-  await write(nodes.decks, deckId, {
-    deck_id: deckId,
-    name,
-    description,
-    creator_ref: user.user_id,
-    is_public: isPublic,
-    created_at: now,
-    updated_at: now,
-  });
+  let patch: Partial<Agreement> = next;
+  if (next.status === AgreementStatus.PROPOSED) {
+    votes = Object.fromEntries(
+      Object.keys(votes).map((aid) => [aid, "pending" as const]),
+    );
+    await write(`${nodes.agreements}/${agreement.agreement_id}`, "votes", votes);
+    const voteWindow =
+      agreement.vote_deadline && agreement.vote_deadline > agreement.created_at
+        ? agreement.vote_deadline - agreement.created_at
+        : undefined;
+    if (voteWindow) patch = { ...patch, vote_deadline: now + voteWindow };
+  }
+  await updateAgreement(agreement.agreement_id, { ...patch });
+  console.log(
+    `[gameService] Agreement ${agreement.agreement_id} reached expiry → ${next.status}`,
+  );
+  return { agreement: { ...agreement, ...patch }, votes };
+}
 
-  // 4️⃣ init empty cards_ref map
-  await write(`${nodes.decks}/${deckId}`, "cards_ref", {});
+/**
+ * Listen for vote changes on a single agreement.
+ * Emits the full cleaned votes map on every change.
+ */
+export function subscribeToAgreementVotes(
+  agreementId: string,
+  onVotes: (votes: Record<string, AgreementVote>) => void,
+): () => void {
+  const gun = getGun();
+  if (!gun) return () => {};
 
-  return {
-    deck_id: deckId,
-    name,
-    description,
-    creator_ref: user.user_id,
-    is_public: isPublic,
-    cards_ref: {},
-    created_at: now,
-    updated_at: now,
+  // Point at agreements/<agreementId>/votes
+  const votesNode = gun.get(`${nodes.agreements}/${agreementId}`).get("votes");
+
+  const handler = (raw: Record<string, any> | undefined) => {
+    if (!raw) return;
+    onVotes(cleanVotes(raw));
+  };
+
+  votesNode.on(handler);
+
+  return () => {
+    votesNode.off();
   };
 }
 
+// ─────────────────────────────────────────────────────────────────────────────
+// Agreement amendments & revision history
+// ─────────────────────────────────────────────────────────────────────────────
+
+type PartyTerms = Record<string, { obligation: string; benefit: string }>;
+
+// helper: read every party entry (card plus joined terms) of an agreement
+async function readParties(agreementId: string): Promise<Agreement["parties"]> {
+  const partiesRef = await getRefMap(
+    `${nodes.agreements}/${agreementId}`,
+    "parties",
+  );
+  const entries = await Promise.all(
+    Object.keys(partiesRef).map(async (actorId) => {
+      const pd = await getField<Agreement["parties"][string]>(
+        `${nodes.agreements}/${agreementId}/parties`,
+        actorId,
+      );
+      return [
+        actorId,
+        {
+          card_ref: pd?.card_ref ?? "",
+          obligation: pd?.obligation ?? "",
+          benefit: pd?.benefit ?? "",
+          ...(pd?.legal_entity ? { legal_entity: pd.legal_entity } : {}),
+          ...(pd?.jurisdiction ? { jurisdiction: pd.jurisdiction } : {}),
+        },
+      ] as const;
+    }),
+  );
+  return Object.fromEntries(entries);
+}
+
+// helper: read the current obligation/benefit of every party
+async function readAgreementTerms(agreementId: string): Promise<PartyTerms> {
+  const partiesRef = await getRefMap(
+    `${nodes.agreements}/${agreementId}`,
+    "parties",
+  );
+  const entries = await Promise.all(
+    Object.keys(partiesRef).map(async (actorId) => {
+      const pd = await getField<{ obligation: string; benefit: string }>(
+        `${nodes.agreements}/${agreementId}/parties`,
+        actorId,
+      );
+      return [
+        actorId,
+        { obligation: pd?.obligation ?? "", benefit: pd?.benefit ?? "" },
+      ] as const;
+    }),
+  );
+  return Object.fromEntries(entries);
+}
+
+// helper: per-party diff between two sets of terms (unchanged parties omitted)
+function diffTerms(
+  before: PartyTerms,
+  after: PartyTerms,
+): Record<string, AgreementTermsChange> {
+  const changes: Record<string, AgreementTermsChange> = {};
+  for (const actorId of Object.keys(after)) {
+    const prev = before[actorId] ?? { obligation: "", benefit: "" };
+    const next = after[actorId];
+    const change: AgreementTermsChange = {};
+    if (prev.obligation !== next.obligation) {
+      change.obligation_from = prev.obligation;
+      change.obligation_to = next.obligation;
+    }
+    if (prev.benefit !== next.benefit) {
+      change.benefit_from = prev.benefit;
+      change.benefit_to = next.benefit;
+    }
+    if (Object.keys(change).length > 0) changes[actorId] = change;
+  }
+  return changes;
+}
+
+// helper: append a revision node under agreements/<id>/revisions
+async function writeRevision(
+  agreementId: string,
+  revision: AgreementRevision,
+): Promise<void> {
+  const { terms: _terms, ...stored } = revision;
+  await write(
+    `${nodes.agreements}/${agreementId}/revisions`,
+    revision.revision_id,
+    stored,
+  );
+  await write(`${nodes.agreements}/${agreementId}`, "current_revision", revision.number);
+}
+
 /**
- * Update any top‐level Deck fields (name, description, is_public, updated_at, etc.)
+ * Load an agreement's revisions in order (oldest first). Each revision's
+ * `terms` holds the full party terms as they stood after that revision,
+ * rebuilt by replaying the per-party changes.
  */
-export async function updateDeck(
-  deckId: string,
-  updates: Partial<Deck>,
-): Promise<boolean> {
-  updates.updated_at = Date.now();
-  // write each field under decks/<deckId>/
-  await Promise.all(
-    Object.entries(updates).map(([k, v]) =>
-      write(`${nodes.decks}/${deckId}`, k, v),
-    ),
+export async function getAgreementRevisions(
+  agreementId: string,
+): Promise<AgreementRevision[]> {
+  const base = `${nodes.agreements}/${agreementId}/revisions`;
+  const revIds = Object.keys(
+    await getRefMap(`${nodes.agreements}/${agreementId}`, "revisions"),
   );
-  return true;
-}
 
-// ─────────────────────────────────────────────────────────────────────────────
-// Card flows
-// ────────────────────────────────────────────────────────────────so�────────────
+  const revisions = (
+    await Promise.all(
+      revIds.map(async (revId) => {
+        const rev = await getField<AgreementRevision>(base, revId);
+        if (!rev || typeof rev.number !== "number") return null;
+        const changeIds = Object.keys(
+          await getRefMap(`${base}/${revId}`, "changes"),
+        );
+        const changes: Record<string, AgreementTermsChange> = {};
+        await Promise.all(
+          changeIds.map(async (actorId) => {
+            const c = await getField<AgreementTermsChange>(
+              `${base}/${revId}/changes`,
+              actorId,
+            );
+            if (c) changes[actorId] = c;
+          }),
+        );
+        return { ...rev, revision_id: revId, changes };
+      }),
+    )
+  )
+    .filter(notNull)
+    .sort((a, b) => a.number - b.number);
+
+  // replay the changes to reconstruct each revision's full terms
+  let running: PartyTerms = {};
+  return revisions.map((rev) => {
+    running = { ...running };
+    for (const [actorId, c] of Object.entries(rev.changes)) {
+      const prev = running[actorId] ?? { obligation: "", benefit: "" };
+      running[actorId] = {
+        obligation: c.obligation_to ?? prev.obligation,
+        benefit: c.benefit_to ?? prev.benefit,
+      };
+    }
+    return { ...rev, terms: running };
+  });
+}
 
 /**
- * Create a new Card with a sequential ID (card_1, card_2, …) and attach it to a deck.
- * Nested maps (values_ref, capabilities_ref, agreements_ref) all start empty.
+ * Amend an agreement's title, summary or party terms. The change is recorded
+ * as a new revision (who proposed it, per-party diffs, timestamp), every vote
+ * is reset to pending and the agreement returns to PROPOSED.
+ * Only the agreement's creator or a player controlling one of its parties may
+ * amend it.
  */
-export async function createCard(
-  deckId: string,
-  data: {
-    card_number: number;
-    role_title: string;
-    backstory: string;
-    goals: string;
-    obligations: string;
-    intellectual_property: string;
-    resources: string;
-    card_category: string;
-    type: string;
-    icon: string;
+export async function amendAgreement(
+  agreementId: string,
+  amendment: {
+    title?: string;
+    summary?: string;
+    terms: Record<
+      string,
+      { obligations?: (string | TermDraft)[]; benefits?: (string | TermDraft)[] }
+    >;
   },
-): Promise<Card | null> {
+): Promise<AgreementRevision | null> {
   const user = getCurrentUser();
   if (!user) return null;
 
-  // 1️⃣ find highest existing card_<num>
-  const existing = await getCollection<Card>(nodes.cards);
-  let maxNum = 0;
-  for (const c of existing) {
-    const m = c.card_id.match(/^card_(\d+)$/);
-    if (m) {
-      const n = parseInt(m[1], 10);
-      if (n > maxNum) maxNum = n;
-    }
+  // 1️⃣ Load agreement, its current terms and history
+  const agreement = await get<Agreement>(`${nodes.agreements}/${agreementId}`);
+  if (!agreement) {
+    console.warn(`[gameService] Agreement not found: ${agreementId}`);
+    return null;
+  }
+  if (agreement.status === AgreementStatus.COMPLETED) {
+    throw new Error("Completed agreements can no longer be amended");
+  }
+  if (agreement.status === AgreementStatus.DISPUTED) {
+    throw new Error("Disputed agreements cannot be amended until the dispute is resolved");
+  }
+  const game = await get<Game>(`${nodes.games}/${agreement.game_ref}`);
+  assertGameAllows(game?.status, "create_agreement");
+  const [currentTerms, revisions, controlled] = await Promise.all([
+    readAgreementTerms(agreementId),
+    getAgreementRevisions(agreementId),
+    readControlledActors(agreement.game_ref, user.user_id),
+  ]);
+
+  // 2️⃣ The proposer must be the creator or play one of the parties
+  const proposerActor = controlled.find((aid) => aid in currentTerms);
+  const isParty = !!proposerActor;
+  if (!isParty && agreement.creator_ref !== user.user_id) {
+    throw new Error("Only the creator or a party can amend this agreement");
   }
 
-  // 2️⃣ assign new id
-  const cardId = `card_${maxNum + 1}`;
+  // 3️⃣ Agreements created before history existed get their original as rev_0
+  if (revisions.length === 0) {
+    await writeRevision(agreementId, {
+      revision_id: "rev_0",
+      number: 0,
+      proposed_by: agreement.creator_ref,
+      title: agreement.title,
+      summary: agreement.summary ?? "",
+      changes: diffTerms({}, currentTerms),
+      created_at: agreement.created_at,
+    });
+  }
+
+  // 4️⃣ Compute the amended terms and their diff
+  const nextTerms: PartyTerms = {};
+  for (const [actorId, terms] of Object.entries(currentTerms)) {
+    const patch = amendment.terms[actorId] ?? {};
+    nextTerms[actorId] = {
+      obligation: patch.obligations ? joinTerms(patch.obligations) : terms.obligation,
+      benefit: patch.benefits ? joinTerms(patch.benefits) : terms.benefit,
+    };
+  }
+  if (
+    agreement.type === "symmetric" &&
+    !hasSharedTerms(Object.values(nextTerms))
+  ) {
+    throw new Error(
+      "Symmetric agreements need identical obligations and benefits for every party",
+    );
+  }
+  const changes = diffTerms(currentTerms, nextTerms);
+  const title = amendment.title?.trim() || agreement.title;
+  const summary = amendment.summary ?? agreement.summary ?? "";
+  if (
+    Object.keys(changes).length === 0 &&
+    title === agreement.title &&
+    summary === (agreement.summary ?? "")
+  ) {
+    throw new Error("The amendment does not change anything");
+  }
+
+  // 5️⃣ Write the new terms and reset every vote to pending
   const now = Date.now();
+  await Promise.all(
+    Object.keys(changes).map((actorId) =>
+      write(`${nodes.agreements}/${agreementId}/parties`, actorId, nextTerms[actorId]),
+    ),
+  );
+  await write(
+    `${nodes.agreements}/${agreementId}`,
+    "votes",
+    Object.fromEntries(Object.keys(currentTerms).map((aid) => [aid, "pending"])),
+  );
+  // fulfilment starts over: rebuild every party's items, keeping due dates
+  const items = await getAgreementItems(agreementId);
+  await Promise.all(
+    Object.keys(currentTerms).map((actorId) => {
+      const patch = amendment.terms[actorId] ?? {};
+      const keep = <T extends ObligationItem | BenefitItem>(list: T[]) =>
+        list
+          .filter((i) => i.fromActorId === actorId)
+          .map((i) => ({ text: i.text, due_date: i.due_date }));
+      return writePartyItems(
+        agreementId,
+        actorId,
+        withDueDates(patch.obligations, keep(items.obligations)),
+        withDueDates(patch.benefits, keep(items.benefits)),
+      );
+    }),
+  );
+  const voteWindow =
+    agreement.vote_deadline && agreement.vote_deadline > agreement.created_at
+      ? agreement.vote_deadline - agreement.created_at
+      : undefined;
+  await updateAgreement(agreementId, {
+    title,
+    summary,
+    status: AgreementStatus.PROPOSED,
+    ...(voteWindow ? { vote_deadline: now + voteWindow } : {}),
+  });
 
-  // 3️⃣ write root card node
-  await write(nodes.cards, cardId, {
-    card_id: cardId,
-    card_number: data.card_number,
-    role_title: data.role_title,
-    backstory: data.backstory,
-    goals: data.goals,
-    obligations: data.obligations,
-    intellectual_property: data.intellectual_property,
-    resources: data.resources,
-    card_category: data.card_category,
-    type: data.type,
-    icon: data.icon,
-    creator_ref: user.user_id,
+  // 6️⃣ Record the revision
+  const number = Math.max(0, ...revisions.map((r) => r.number)) + 1;
+  const revision: AgreementRevision = {
+    revision_id: `rev_${number}`,
+    number,
+    proposed_by: user.user_id,
+    ...(proposerActor ? { proposed_by_actor: proposerActor } : {}),
+    title,
+    summary,
+    changes,
     created_at: now,
-    updated_at: now,
-  });
+  };
+  await writeRevision(agreementId, revision);
 
-  // 4️⃣ nested refs under cards/<cardId>/
-  await Promise.all([
-    write(`${nodes.cards}/${cardId}`, "values_ref", {}),
-    write(`${nodes.cards}/${cardId}`, "capabilities_ref", {}),
-    write(`${nodes.cards}/${cardId}`, "agreements_ref", {}),
-    write(`${nodes.cards}/${cardId}`, "decks_ref", { [deckId]: true }),
+  console.log(
+    `[gameService] Amended ${agreementId} → rev_${number}`,
+    changes,
+  );
+  return { ...revision, terms: nextTerms };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Agreement negotiation (counter-proposals)
+// ─────────────────────────────────────────────────────────────────────────────
+
+// helper: load one draft with its nested per-party terms
+async function readDraft(
+  agreementId: string,
+  draftId: string,
+): Promise<AgreementDraft | null> {
+  const base = `${nodes.agreements}/${agreementId}/drafts`;
+  const draft = await getField<AgreementDraft>(base, draftId);
+  if (!draft || typeof draft.number !== "number") return null;
+  const actorIds = Object.keys(await getRefMap(`${base}/${draftId}`, "terms"));
+  const terms: PartyTerms = {};
+  await Promise.all(
+    actorIds.map(async (actorId) => {
+      const t = await getField<{ obligation: string; benefit: string }>(
+        `${base}/${draftId}/terms`,
+        actorId,
+      );
+      if (t) terms[actorId] = { obligation: t.obligation ?? "", benefit: t.benefit ?? "" };
+    }),
+  );
+  return { ...draft, draft_id: draftId, terms };
+}
+
+// helper: the negotiator must be the creator or play one of the parties
+async function requireNegotiator(
+  agreement: Agreement,
+  parties: string[],
+): Promise<{ userId: string; actorId?: string }> {
+  const user = getCurrentUser();
+  if (!user) throw new Error("You must be logged in to negotiate");
+  const controlled = await readControlledActors(agreement.game_ref, user.user_id);
+  const actorId = controlled.find((aid) => parties.includes(aid));
+  const isParty = !!actorId;
+  if (!isParty && agreement.creator_ref !== user.user_id) {
+    throw new Error("Only the creator or a party can negotiate this agreement");
+  }
+  return { userId: user.user_id, ...(isParty ? { actorId } : {}) };
+}
+
+// helper: post a negotiation note to the game chat, pointing at the draft
+async function postNegotiationMessage(
+  agreement: Agreement,
+  draftId: string,
+  content: string,
+): Promise<void> {
+  try {
+    await sendMessage(agreement.game_ref, content, "group", undefined, {
+      agreement_ref: agreement.agreement_id,
+      draft_ref: draftId,
+    });
+  } catch (error) {
+    console.warn(`[gameService] Could not post negotiation message:`, error);
+  }
+}
+
+/**
+ * Load an agreement's negotiation drafts in order (oldest first).
+ */
+export async function getAgreementDrafts(
+  agreementId: string,
+): Promise<AgreementDraft[]> {
+  const ids = Object.keys(
+    await getRefMap(`${nodes.agreements}/${agreementId}`, "drafts"),
+  );
+  const drafts = await Promise.all(ids.map((id) => readDraft(agreementId, id)));
+  return drafts.filter(notNull).sort((a, b) => a.number - b.number);
+}
+
+/**
+ * Move a proposed agreement into negotiation. Its current terms become the
+ * opening draft; voting is suspended until the final draft is sent to vote.
+ */
+export async function openNegotiation(
+  agreementId: string,
+): Promise<AgreementDraft | null> {
+  const agreement = await get<Agreement>(`${nodes.agreements}/${agreementId}`);
+  if (!agreement) {
+    console.warn(`[gameService] Agreement not found: ${agreementId}`);
+    return null;
+  }
+  if (agreement.status !== AgreementStatus.PROPOSED) {
+    throw new Error("Only proposed agreements can be opened for negotiation");
+  }
+  const game = await get<Game>(`${nodes.games}/${agreement.game_ref}`);
+  assertGameAllows(game?.status, "create_agreement");
+  const [terms, existing] = await Promise.all([
+    readAgreementTerms(agreementId),
+    getRefMap(`${nodes.agreements}/${agreementId}`, "drafts"),
   ]);
+  const { userId, actorId } = await requireNegotiator(agreement, Object.keys(terms));
+
+  // 1️⃣ Earlier rounds of negotiation are kept; numbering continues
+  const number = Object.keys(existing).length + 1;
+  const draft: AgreementDraft = {
+    draft_id: `draft_${number}`,
+    number,
+    proposed_by: userId,
+    ...(actorId ? { proposed_by_actor: actorId } : {}),
+    title: agreement.title,
+    summary: agreement.summary ?? "",
+    terms,
+    status: "current",
+    created_at: Date.now(),
+  };
+  await write(`${nodes.agreements}/${agreementId}/drafts`, draft.draft_id, draft);
 
-  // 5️⃣ pointer‐edges deck<→>card ((Don't do this it conflicts with maps, create new key for each, ie. ref_set))
-  // await Promise.all([
-  //   createRelationship(
-  //     `${nodes.decks}/${deckId}`,
-  //     "cards_ref",
-  //     `${nodes.cards}/${cardId}`,
-  //   ),
-  //   createRelationship(
-  //     `${nodes.cards}/${cardId}`,
-  //     "decks_ref",
-  //     `${nodes.decks}/${deckId}`,
-  //   ),
-  // ]);
+  // 2️⃣ Suspend voting while the parties negotiate
+  await write(
+    `${nodes.agreements}/${agreementId}`,
+    "votes",
+    Object.fromEntries(Object.keys(terms).map((aid) => [aid, "pending"])),
+  );
+  await updateAgreement(agreementId, {
+    status: AgreementStatus.NEGOTIATING,
+    current_draft: draft.draft_id,
+  });
 
-  // 6️⃣ return full Card
-  return {
-    card_id: cardId,
-    card_number: data.card_number,
-    role_title: data.role_title,
-    backstory: data.backstory,
-    goals: data.goals,
-    obligations: data.obligations,
-    intellectual_property: data.intellectual_property,
-    resources: data.resources,
-    card_category: data.card_category,
-    type: data.type,
-    icon: data.icon,
-    creator_ref: user.user_id,
-    values_ref: {},
-    capabilities_ref: {},
-    agreements_ref: {},
-    decks_ref: { [deckId]: true },
-    created_at: now,
-    updated_at: now,
+  await postNegotiationMessage(
+    agreement,
+    draft.draft_id,
+    `Opened negotiation on "${agreement.title}" (draft ${number})`,
+  );
+  return draft;
+}
+
+/**
+ * Counter-propose changes to any party's obligations or benefits. The new
+ * draft supersedes the current one; `actorId` must be a party played by the
+ * current user.
+ */
+export async function counterPropose(
+  agreementId: string,
+  actorId: string,
+  proposal: {
+    title?: string;
+    summary?: string;
+    terms: Record<
+      string,
+      { obligations?: (string | TermDraft)[]; benefits?: (string | TermDraft)[] }
+    >;
+    note?: string;
+  },
+): Promise<AgreementDraft | null> {
+  const user = getCurrentUser();
+  if (!user) return null;
+
+  // 1️⃣ Load the agreement and the draft being countered
+  const agreement = await get<Agreement>(`${nodes.agreements}/${agreementId}`);
+  if (!agreement) {
+    console.warn(`[gameService] Agreement not found: ${agreementId}`);
+    return null;
+  }
+  if (agreement.status !== AgreementStatus.NEGOTIATING || !agreement.current_draft) {
+    throw new Error("This agreement is not under negotiation");
+  }
+  const game = await get<Game>(`${nodes.games}/${agreement.game_ref}`);
+  assertGameAllows(game?.status, "create_agreement");
+  const current = await readDraft(agreementId, agreement.current_draft);
+  if (!current) throw new Error("The current draft could not be loaded");
+
+  // 2️⃣ Counter-proposals come from the parties themselves
+  const controlled = await readControlledActors(agreement.game_ref, user.user_id);
+  if (!controlled.includes(actorId) || !(actorId in current.terms)) {
+    throw new Error("Only a party to the agreement can counter-propose");
+  }
+
+  // 3️⃣ Apply the proposed changes on top of the current draft
+  const nextTerms: PartyTerms = {};
+  for (const [aid, terms] of Object.entries(current.terms)) {
+    const patch = proposal.terms[aid] ?? {};
+    nextTerms[aid] = {
+      obligation: patch.obligations ? joinTerms(patch.obligations) : terms.obligation,
+      benefit: patch.benefits ? joinTerms(patch.benefits) : terms.benefit,
+    };
+  }
+  if (agreement.type === "symmetric" && !hasSharedTerms(Object.values(nextTerms))) {
+    throw new Error(
+      "Symmetric agreements need identical obligations and benefits for every party",
+    );
+  }
+  const title = proposal.title?.trim() || current.title;
+  const summary = proposal.summary ?? current.summary ?? "";
+  if (
+    Object.keys(diffTerms(current.terms, nextTerms)).length === 0 &&
+    title === current.title &&
+    summary === (current.summary ?? "")
+  ) {
+    throw new Error("The counter-proposal does not change the current draft");
+  }
+
+  // 4️⃣ Supersede the current draft with the counter-proposal
+  const number = current.number + 1;
+  const note = proposal.note?.trim();
+  const draft: AgreementDraft = {
+    draft_id: `draft_${number}`,
+    number,
+    proposed_by: user.user_id,
+    proposed_by_actor: actorId,
+    title,
+    summary,
+    terms: nextTerms,
+    ...(note ? { note } : {}),
+    status: "current",
+    supersedes: current.draft_id,
+    created_at: Date.now(),
   };
+  await write(`${nodes.agreements}/${agreementId}/drafts`, current.draft_id, {
+    status: "superseded",
+  });
+  await write(`${nodes.agreements}/${agreementId}/drafts`, draft.draft_id, draft);
+  await updateAgreement(agreementId, { current_draft: draft.draft_id });
+
+  await postNegotiationMessage(
+    agreement,
+    draft.draft_id,
+    `Counter-proposal on "${title}" (draft ${number})${note ? `: ${note}` : ""}`,
+  );
+  console.log(`[gameService] ${actorId} countered ${agreementId} → ${draft.draft_id}`);
+  return draft;
 }
 
 /**
- * Update any top‐level Card fields (role_title, backstory, etc.) or nested maps.
- * Pass in partials; any field you include will be written under cards/<cardId>/.
+ * End the negotiation and send the current draft to vote. Its terms are
+ * applied to the agreement as an amendment (a new revision); earlier drafts
+ * never reach a vote.
  */
-export async function updateCard(
-  cardId: string,
-  updates: Partial<Card>,
-): Promise<boolean> {
-  updates.updated_at = Date.now();
-  // write each field (nested or root) under cards/<cardId>/
-  await Promise.all(
-    Object.entries(updates).map(([k, v]) =>
-      write(`${nodes.cards}/${cardId}`, k, v),
-    ),
+export async function finalizeNegotiation(
+  agreementId: string,
+): Promise<AgreementDraft | null> {
+  const agreement = await get<Agreement>(`${nodes.agreements}/${agreementId}`);
+  if (!agreement) {
+    console.warn(`[gameService] Agreement not found: ${agreementId}`);
+    return null;
+  }
+  if (agreement.status !== AgreementStatus.NEGOTIATING || !agreement.current_draft) {
+    throw new Error("This agreement is not under negotiation");
+  }
+  const [draft, currentTerms] = await Promise.all([
+    readDraft(agreementId, agreement.current_draft),
+    readAgreementTerms(agreementId),
+  ]);
+  if (!draft) throw new Error("The current draft could not be loaded");
+  await requireNegotiator(agreement, Object.keys(currentTerms));
+
+  // 1️⃣ Apply the final draft, recording it as a revision when it changed anything
+  const changes = diffTerms(currentTerms, draft.terms);
+  const split = (text: string) => text.split("; ").filter(Boolean);
+  if (
+    Object.keys(changes).length > 0 ||
+    draft.title !== agreement.title ||
+    (draft.summary ?? "") !== (agreement.summary ?? "")
+  ) {
+    await amendAgreement(agreementId, {
+      title: draft.title,
+      summary: draft.summary ?? "",
+      terms: Object.fromEntries(
+        Object.keys(changes).map((aid) => [
+          aid,
+          {
+            obligations: split(draft.terms[aid].obligation),
+            benefits: split(draft.terms[aid].benefit),
+          },
+        ]),
+      ),
+    });
+  } else {
+    const voteWindow =
+      agreement.vote_deadline && agreement.vote_deadline > agreement.created_at
+        ? agreement.vote_deadline - agreement.created_at
+        : undefined;
+    await updateAgreement(agreementId, {
+      status: AgreementStatus.PROPOSED,
+      ...(voteWindow ? { vote_deadline: Date.now() + voteWindow } : {}),
+    });
+  }
+
+  // 2️⃣ Close the thread
+  await write(`${nodes.agreements}/${agreementId}/drafts`, draft.draft_id, {
+    status: "final",
+  });
+  await updateAgreement(agreementId, { current_draft: null });
+
+  await postNegotiationMessage(
+    agreement,
+    draft.draft_id,
+    `Draft ${draft.number} of "${draft.title}" sent to vote`,
   );
-  return true;
+  return { ...draft, status: "final" };
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
-// Bulk-fetch for Game Details page
+// Agreement fulfilment
 // ─────────────────────────────────────────────────────────────────────────────
-export async function getGameContext(
-  gameId: string,
-): Promise<GameContext | null> {
-  try {
-    // 0️⃣ init caches once
-    await initNameCaches();
 
-    // 1️⃣ raw game
-    const rawGame = await get<Game>(`${nodes.games}/${gameId}`);
-    if (!rawGame) return null;
+// helper: accept plain strings wherever a term draft is expected
+function toDraft(term: string | TermDraft): TermDraft {
+  return typeof term === "string" ? { text: term } : term;
+}
 
-    // 2️⃣ parallel fetch of boolean‐maps & nested refs
-    const [
-      playersMap,
-      actorRefMap,
-      agreementRefMap,
-      playerActorRaw,
-      deckCardMap,
-    ] = await Promise.all([
-      readMapOrSet(`${nodes.games}/${gameId}`, "players"),
-      getRefMap(`${nodes.games}/${gameId}`, "actors_ref"),
-      getRefMap(`${nodes.games}/${gameId}`, "agreements_ref"),
-      getField<Record<string, string>>(
-        `${nodes.games}/${gameId}`,
-        "player_actor_map",
-      ),
-      getRefMap(`${nodes.decks}/${rawGame.deck_ref}`, "cards_ref"),
-    ]);
+// helper: flatten terms to the "; "-joined text stored on parties
+function joinTerms(list: (string | TermDraft)[] | undefined): string {
+  return (list ?? [])
+    .map((t) => toDraft(t).text.trim())
+    .filter(Boolean)
+    .join("; ");
+}
 
-    // clean player→actor map
-    const playerActorMap = Object.fromEntries(
-      Object.entries(playerActorRaw || {}).filter(
-        ([k]) => k !== "#" && !k.startsWith("#"),
-      ),
-    );
+// helper: true when every party carries exactly the same terms
+function hasSharedTerms(
+  list: { obligation: string; benefit: string }[],
+): boolean {
+  return list.every(
+    (t) => t.obligation === list[0].obligation && t.benefit === list[0].benefit,
+  );
+}
 
-    // enriched game object
-    const gameWithPlayers: Game = {
-      ...rawGame,
-      game_id: gameId,
-      players: playersMap,
-      actors_ref: actorRefMap,
-      player_actor_map: playerActorMap,
-    };
+// helper: carry due dates over to amended terms that kept the same text
+function withDueDates(
+  list: (string | TermDraft)[] | undefined,
+  previous: TermDraft[],
+): TermDraft[] {
+  if (!list) return previous;
+  return list.map((term) => {
+    const draft = toDraft(term);
+    if (draft.due_date !== undefined) return draft;
+    const match = previous.find((p) => p.text === draft.text);
+    return match?.due_date ? { ...draft, due_date: match.due_date } : draft;
+  });
+}
 
-    // 3️⃣ deck info
-    const deckId = rawGame.deck_ref;
-    const totalCards = Object.keys(deckCardMap).length;
+// helper: (re)write one party's obligation & benefit items, all open again.
+// Item ids are positional per actor so a shorter list tombstones the rest.
+async function writePartyItems(
+  agreementId: string,
+  actorId: string,
+  obligations: TermDraft[],
+  benefits: TermDraft[],
+): Promise<void> {
+  const base = `${nodes.agreements}/${agreementId}`;
+  const existing = await Promise.all([
+    getRefMap(base, "obligations"),
+    getRefMap(base, "benefits"),
+  ]);
 
-    // 4️⃣ fetch only this deck’s cards
-    const deckCardIds = Object.keys(deckCardMap);
-    const deckCards = (
-      await Promise.all(
-        deckCardIds.map((cardId) => get<Card>(`${nodes.cards}/${cardId}`)),
-      )
-    ).filter((c): c is Card => Boolean(c));
+  const writes: Promise<void>[] = [];
+  (["obligations", "benefits"] as const).forEach((field, f) => {
+    const prefix = field === "obligations" ? "ob" : "bn";
+    const drafts = (f === 0 ? obligations : benefits).filter((d) =>
+      d.text.trim(),
+    );
+    const ids = drafts.map((_, i) => `${prefix}_${actorId}_${i}`);
+
+    drafts.forEach((draft, i) => {
+      writes.push(
+        write(`${base}/${field}`, ids[i], {
+          id: ids[i],
+          fromActorId: actorId,
+          text: draft.text.trim(),
+          due_date: draft.due_date ?? null,
+          state: "open",
+          ...(field === "obligations"
+            ? { checked_by: null, checked_at: null }
+            : {}),
+        }),
+      );
+    });
 
-    // 5️⃣ resolve each actor + their assigned card
-    const usedSet = new Set<string>();
-    const actors: ActorWithCard[] = [];
+    // tombstone this actor's leftover items from a longer previous list
+    Object.keys(existing[f])
+      .filter((id) => id.startsWith(`${prefix}_${actorId}_`) && !ids.includes(id))
+      .forEach((id) => writes.push(write(`${base}/${field}`, id, null)));
+  });
 
-    await Promise.all(
-      Object.keys(actorRefMap).map(async (aid) => {
-        const [actor, cardsByGame] = await Promise.all([
-          get<Actor>(`${nodes.actors}/${aid}`),
-          getMap(`${nodes.actors}/${aid}`, "cards_by_game"),
-        ]);
-        if (!actor) return;
+  await Promise.all(writes);
+}
+
+/**
+ * Load an agreement's structured obligations and benefits.
+ */
+export async function getAgreementItems(
+  agreementId: string,
+): Promise<{ obligations: ObligationItem[]; benefits: BenefitItem[] }> {
+  const base = `${nodes.agreements}/${agreementId}`;
+
+  const readItems = async <T extends ObligationItem | BenefitItem>(
+    field: "obligations" | "benefits",
+  ): Promise<T[]> => {
+    const ids = Object.keys(await getRefMap(base, field));
+    const items: (T | null)[] = await Promise.all(
+      ids.map((id) => getField<T>(`${base}/${field}`, id)),
+    );
+    return items
+      .filter((i): i is T => !!i && !!i.text && !!i.fromActorId)
+      .map((i) => {
+        const clean = { ...i, state: i.state ?? "open" } as T;
+        if (clean.due_date == null) delete clean.due_date;
+        return clean;
+      })
+      .sort((a, b) => a.id.localeCompare(b.id));
+  };
+
+  const [obligations, benefits] = await Promise.all([
+    readItems<ObligationItem>("obligations"),
+    readItems<BenefitItem>("benefits"),
+  ]);
+  return { obligations, benefits };
+}
+
+/**
+ * True when every obligation of the agreement has been checked off as done.
+ * Agreements without structured obligations have nothing left to fulfil.
+ */
+export async function isAgreementFulfilled(
+  agreementId: string,
+): Promise<boolean> {
+  const { obligations } = await getAgreementItems(agreementId);
+  return obligations.every((o) => o.state === "done");
+}
+
+/**
+ * Mark an obligation of an accepted agreement as done, breached or open again.
+ * Only a counterparty may check off an obligation: `actorId` must be one of
+ * the agreement's parties other than the one who owes it (or the specific
+ * party it is owed to), and the current user must control that actor. Once
+ * every obligation is done the agreement moves to COMPLETED.
+ */
+export async function setObligationState(
+  agreementId: string,
+  obligationId: string,
+  actorId: string,
+  state: FulfilmentState,
+): Promise<ObligationItem | null> {
+  const user = getCurrentUser();
+  if (!user) return null;
+
+  // 1️⃣ Load the agreement and the obligation
+  const agreement = await get<Agreement>(`${nodes.agreements}/${agreementId}`);
+  if (!agreement) {
+    console.warn(`[gameService] Agreement not found: ${agreementId}`);
+    return null;
+  }
+  if (agreement.status !== AgreementStatus.ACCEPTED) {
+    throw new Error("Obligations can only be checked off on accepted agreements");
+  }
+  const obligation = await getField<ObligationItem>(
+    `${nodes.agreements}/${agreementId}/obligations`,
+    obligationId,
+  );
+  if (!obligation?.fromActorId) {
+    console.warn(`[gameService] Obligation not found: ${obligationId}`);
+    return null;
+  }
+
+  // 2️⃣ The checker must be a counterparty controlled by this user
+  const [controlled, votes] = await Promise.all([
+    readControlledActors(agreement.game_ref, user.user_id),
+    getAgreementVotes(agreementId),
+  ]);
+  if (!controlled.includes(actorId)) {
+    throw new Error("You can only check off obligations as your own actor");
+  }
+  if (!(actorId in votes) || actorId === obligation.fromActorId) {
+    throw new Error("Only a counterparty can check off this obligation");
+  }
+  if (obligation.toActorId && obligation.toActorId !== actorId) {
+    throw new Error("This obligation is owed to another party");
+  }
+
+  // 3️⃣ Record the new state
+  const now = Date.now();
+  const patch =
+    state === "open"
+      ? { state, checked_by: null, checked_at: null }
+      : { state, checked_by: actorId, checked_at: now };
+  await write(`${nodes.agreements}/${agreementId}/obligations`, obligationId, patch);
+
+  // 4️⃣ Complete the agreement once nothing is left to fulfil
+  const { obligations } = await getAgreementItems(agreementId);
+  if (obligations.length > 0 && obligations.every((o) => o.state === "done")) {
+    await updateAgreement(agreementId, { status: AgreementStatus.COMPLETED });
+  } else {
+    await updateAgreement(agreementId, {});
+  }
+
+  return {
+    ...obligation,
+    state,
+    ...(state === "open" ? {} : { checked_by: actorId, checked_at: now }),
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Agreement disputes
+// ─────────────────────────────────────────────────────────────────────────────
+
+// helper: can this user mediate disputes in the game?
+function canMediate(
+  game: Game,
+  userId: string,
+  controlled: string[],
+): boolean {
+  return (
+    game.creator_ref === userId ||
+    (!!game.mediator_actor && controlled.includes(game.mediator_actor))
+  );
+}
+
+/**
+ * Appoint an actor as the game's dispute mediator, or clear it with null.
+ * Only the game creator may appoint; the creator can always mediate.
+ */
+export async function appointMediator(
+  gameId: string,
+  actorId: string | null,
+): Promise<boolean> {
+  const user = getCurrentUser();
+  if (!user) return false;
+
+  const game = await get<Game>(`${nodes.games}/${gameId}`);
+  if (!game) {
+    console.warn(`[gameService] Game not found: ${gameId}`);
+    return false;
+  }
+  if (game.creator_ref !== user.user_id) {
+    throw new Error("Only the game creator can appoint a mediator");
+  }
+  if (actorId) {
+    const actorsRef = await getRefMap(`${nodes.games}/${gameId}`, "actors_ref");
+    if (!actorsRef[actorId]) {
+      throw new Error("The mediator must be an actor in this game");
+    }
+  }
+
+  await write(`${nodes.games}`, gameId, {
+    mediator_actor: actorId,
+    updated_at: Date.now(),
+  });
+  return true;
+}
+
+/**
+ * Load an agreement's dispute history (oldest first), with responses.
+ */
+export async function getAgreementDisputes(
+  agreementId: string,
+): Promise<AgreementDispute[]> {
+  const base = `${nodes.agreements}/${agreementId}/disputes`;
+  const ids = Object.keys(
+    await getRefMap(`${nodes.agreements}/${agreementId}`, "disputes"),
+  );
+
+  const disputes = await Promise.all(
+    ids.map(async (id) => {
+      const raw = await getField<AgreementDispute>(base, id);
+      if (!raw?.statement) return null;
+
+      const responseIds = Object.keys(await getRefMap(`${base}/${id}`, "responses"));
+      const responses: Record<string, DisputeResponse> = {};
+      await Promise.all(
+        responseIds.map(async (aid) => {
+          const r = await getField<DisputeResponse>(`${base}/${id}/responses`, aid);
+          if (r?.statement) responses[aid] = r;
+        }),
+      );
+      const resolution = raw.status === "resolved"
+        ? await getField<DisputeResolution>(`${base}/${id}`, "resolution")
+        : null;
+
+      return {
+        ...raw,
+        dispute_id: id,
+        responses,
+        ...(resolution?.outcome ? { resolution } : {}),
+      } as AgreementDispute;
+    }),
+  );
+  return disputes
+    .filter(notNull)
+    .sort((a, b) => a.created_at - b.created_at);
+}
+
+/**
+ * Open a dispute on an accepted or completed agreement. `actorId` must be a
+ * party controlled by the current user. The agreement moves to DISPUTED until
+ * a mediator resolves it.
+ */
+export async function openDispute(
+  agreementId: string,
+  actorId: string,
+  statement: string,
+  obligationId?: string,
+): Promise<AgreementDispute | null> {
+  const user = getCurrentUser();
+  if (!user) return null;
+
+  // 1️⃣ Load the agreement
+  const agreement = await get<Agreement>(`${nodes.agreements}/${agreementId}`);
+  if (!agreement) {
+    console.warn(`[gameService] Agreement not found: ${agreementId}`);
+    return null;
+  }
+  if (
+    agreement.status !== AgreementStatus.ACCEPTED &&
+    agreement.status !== AgreementStatus.COMPLETED
+  ) {
+    throw new Error("Only accepted or completed agreements can be disputed");
+  }
+  if (!statement.trim()) throw new Error("Please describe the dispute");
+  const game = await get<Game>(`${nodes.games}/${agreement.game_ref}`);
+  if (effectiveStatus(game?.status) === GameStatus.COMPLETED) {
+    throw new Error("This game is completed");
+  }
+
+  // 2️⃣ The claimant must be a party played by this user
+  const [controlled, votes] = await Promise.all([
+    readControlledActors(agreement.game_ref, user.user_id),
+    getAgreementVotes(agreementId),
+  ]);
+  if (!controlled.includes(actorId) || !(actorId in votes)) {
+    throw new Error("Only a party to the agreement can open a dispute");
+  }
+
+  // 3️⃣ Record the dispute and flag the agreement
+  const existing = await getRefMap(`${nodes.agreements}/${agreementId}`, "disputes");
+  const disputeId = `dsp_${Object.keys(existing).length + 1}`;
+  const dispute: AgreementDispute = {
+    dispute_id: disputeId,
+    opened_by: user.user_id,
+    opened_by_actor: actorId,
+    statement: statement.trim(),
+    ...(obligationId ? { obligation_ref: obligationId } : {}),
+    status: "open",
+    prior_status: agreement.status,
+    created_at: Date.now(),
+  };
+  await write(`${nodes.agreements}/${agreementId}/disputes`, disputeId, dispute);
+  await updateAgreement(agreementId, {
+    status: AgreementStatus.DISPUTED,
+    active_dispute: disputeId,
+  });
+
+  console.log(`[gameService] Dispute ${disputeId} opened on ${agreementId}`);
+  return dispute;
+}
+
+/**
+ * Add (or replace) a party's response to an open dispute. The party who
+ * opened the dispute already stated their case and cannot respond.
+ */
+export async function respondToDispute(
+  agreementId: string,
+  disputeId: string,
+  actorId: string,
+  statement: string,
+): Promise<DisputeResponse | null> {
+  const user = getCurrentUser();
+  if (!user) return null;
+
+  const agreement = await get<Agreement>(`${nodes.agreements}/${agreementId}`);
+  const dispute = await getField<AgreementDispute>(
+    `${nodes.agreements}/${agreementId}/disputes`,
+    disputeId,
+  );
+  if (!agreement || !dispute) {
+    console.warn(`[gameService] Dispute not found: ${agreementId}/${disputeId}`);
+    return null;
+  }
+  if (dispute.status !== "open") throw new Error("This dispute is already resolved");
+  if (!statement.trim()) throw new Error("Please write a response");
+
+  const [controlled, votes] = await Promise.all([
+    readControlledActors(agreement.game_ref, user.user_id),
+    getAgreementVotes(agreementId),
+  ]);
+  if (!controlled.includes(actorId) || !(actorId in votes)) {
+    throw new Error("Only a party to the agreement can respond");
+  }
+  if (actorId === dispute.opened_by_actor) {
+    throw new Error("The party who opened the dispute cannot respond to it");
+  }
+
+  const response: DisputeResponse = {
+    actor_id: actorId,
+    statement: statement.trim(),
+    created_at: Date.now(),
+  };
+  await write(
+    `${nodes.agreements}/${agreementId}/disputes/${disputeId}/responses`,
+    actorId,
+    response,
+  );
+  return response;
+}
+
+/**
+ * Resolve an open dispute as mediator (the game creator or the appointed
+ * mediator actor). The agreement leaves DISPUTED for `resulting_status`,
+ * which defaults to its status before the dispute. Upholding a dispute about
+ * a specific obligation marks that obligation as breached, so a completed
+ * agreement goes back to accepted by default and cannot be completed again.
+ * Nothing is written unless the agreement can take the resulting status.
+ */
+export async function resolveDispute(
+  agreementId: string,
+  disputeId: string,
+  decision: {
+    outcome: DisputeResolution["outcome"];
+    note: string;
+    resulting_status?: AgreementStatus;
+  },
+): Promise<AgreementDispute | null> {
+  const user = getCurrentUser();
+  if (!user) return null;
+
+  // 1️⃣ Load agreement, dispute and game
+  const agreement = await get<Agreement>(`${nodes.agreements}/${agreementId}`);
+  const dispute = await getField<AgreementDispute>(
+    `${nodes.agreements}/${agreementId}/disputes`,
+    disputeId,
+  );
+  if (!agreement || !dispute) {
+    console.warn(`[gameService] Dispute not found: ${agreementId}/${disputeId}`);
+    return null;
+  }
+  if (dispute.status !== "open") throw new Error("This dispute is already resolved");
+  const game = await get<Game>(`${nodes.games}/${agreement.game_ref}`);
+  if (!game) {
+    console.warn(`[gameService] Game not found: ${agreement.game_ref}`);
+    return null;
+  }
+
+  // 2️⃣ Only the mediator may decide
+  const controlled = await readControlledActors(agreement.game_ref, user.user_id);
+  if (!canMediate(game, user.user_id, controlled)) {
+    throw new Error("Only the game creator or the appointed mediator can resolve disputes");
+  }
+  const mediatorActor =
+    game.mediator_actor && controlled.includes(game.mediator_actor)
+      ? game.mediator_actor
+      : controlled[0];
+  const breachesObligation = decision.outcome === "upheld" && !!dispute.obligation_ref;
+  const resultingStatus =
+    decision.resulting_status ??
+    (breachesObligation && dispute.prior_status === AgreementStatus.COMPLETED
+      ? AgreementStatus.ACCEPTED
+      : dispute.prior_status);
+  if (
+    resultingStatus === AgreementStatus.DISPUTED ||
+    resultingStatus === AgreementStatus.PROPOSED
+  ) {
+    throw new Error(`A resolved dispute cannot leave the agreement ${resultingStatus}`);
+  }
+
+  // 3️⃣ Check the resulting status before anything is written
+  if (resultingStatus === AgreementStatus.COMPLETED) {
+    if (breachesObligation) {
+      throw new Error("An agreement with a breached obligation cannot be completed");
+    }
+    if (!(await isAgreementFulfilled(agreementId))) {
+      throw new Error("The agreement's obligations are not all met, so it cannot be completed");
+    }
+  }
+  if (resultingStatus === AgreementStatus.ACCEPTED) {
+    const reason = dependencyBlock(await readDependencyRelations(agreementId));
+    if (reason) throw new Error(`This agreement cannot be accepted again: ${reason}`);
+  }
+
+  // 4️⃣ Restore the agreement, then record the resolution and any breach
+  await updateAgreement(agreementId, {
+    status: resultingStatus,
+    active_dispute: null,
+  });
+  if (breachesObligation) {
+    await write(`${nodes.agreements}/${agreementId}/obligations`, dispute.obligation_ref!, {
+      state: "breached",
+      checked_by: dispute.opened_by_actor,
+      checked_at: Date.now(),
+    });
+  }
+  const resolution: DisputeResolution = {
+    outcome: decision.outcome,
+    note: decision.note.trim(),
+    resulting_status: resultingStatus,
+    resolved_by: user.user_id,
+    ...(mediatorActor ? { resolved_by_actor: mediatorActor } : {}),
+    created_at: Date.now(),
+  };
+  await write(`${nodes.agreements}/${agreementId}/disputes`, disputeId, {
+    status: "resolved",
+    resolution,
+  });
+
+  console.log(
+    `[gameService] Dispute ${disputeId} on ${agreementId} ${decision.outcome} → ${resultingStatus}`,
+  );
+  return { ...dispute, dispute_id: disputeId, status: "resolved", resolution };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Agreement dependencies (prerequisite / exclusive / supersedes)
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Load an agreement's relations to other agreements in the same game.
+ */
+export async function getAgreementDependencies(
+  agreementId: string,
+): Promise<AgreementDependency[]> {
+  const ids = Object.keys(
+    await getRefMap(`${nodes.agreements}/${agreementId}`, "dependencies"),
+  );
+  const deps = await Promise.all(
+    ids.map((id) =>
+      getField<AgreementDependency>(
+        `${nodes.agreements}/${agreementId}/dependencies`,
+        id,
+      ),
+    ),
+  );
+  return deps.filter((d): d is AgreementDependency => !!d?.kind);
+}
+
+// helper: each relation paired with the current state of the other agreement
+async function readDependencyRelations(
+  agreementId: string,
+): Promise<{ dependency: AgreementDependency; other: Agreement }[]> {
+  const deps = await getAgreementDependencies(agreementId);
+  const relations = await Promise.all(
+    deps.map(async (dependency) => {
+      const other = await get<Agreement>(
+        `${nodes.agreements}/${dependency.agreement_ref}`,
+      );
+      return other?.agreement_id ? { dependency, other } : null;
+    }),
+  );
+  return relations.filter(notNull);
+}
+
+// helper: ripple an acceptance through the agreement's relations
+async function applyDependencyEffects(agreementId: string): Promise<void> {
+  const effects = dependencyEffects(await readDependencyRelations(agreementId));
+
+  for (const id of effects.expire) {
+    await updateAgreement(id, { status: AgreementStatus.EXPIRED });
+  }
+  for (const id of effects.reject) {
+    await updateAgreement(id, { status: AgreementStatus.REJECTED });
+  }
+  // agreements held back by this prerequisite may now pass their vote
+  for (const id of effects.reevaluate) {
+    const agreement = await get<Agreement>(`${nodes.agreements}/${id}`);
+    if (!agreement) continue;
+    const pam = await readPlayerActorMap(agreement.game_ref);
+    const status = resolveRatification(
+      await getAgreementVotes(id),
+      agreementPolicy(agreement, pam),
+    );
+    if (status === AgreementStatus.PROPOSED) continue;
+    try {
+      await updateAgreement(id, { status });
+    } catch (error) {
+      console.warn(`[gameService] ${id} is still blocked:`, error);
+    }
+  }
+}
+
+/**
+ * Declare a relation from one agreement to another in the same game:
+ * - prerequisite: `agreementId` can only be accepted once `otherId` is
+ * - exclusive:    at most one of the two can be in force
+ * - supersedes:   accepting `agreementId` ends `otherId`
+ * The relation is stored on both agreements. Only the creator or a party of
+ * `agreementId` may add it.
+ */
+export async function addAgreementDependency(
+  agreementId: string,
+  otherId: string,
+  kind: AgreementDependencyKind,
+): Promise<AgreementDependency | null> {
+  const user = getCurrentUser();
+  if (!user) return null;
+  if (agreementId === otherId) {
+    throw new Error("An agreement cannot depend on itself");
+  }
+
+  // 1️⃣ Both agreements must exist in the same game
+  const [agreement, other] = await Promise.all([
+    get<Agreement>(`${nodes.agreements}/${agreementId}`),
+    get<Agreement>(`${nodes.agreements}/${otherId}`),
+  ]);
+  if (!agreement || !other) {
+    console.warn(`[gameService] Agreement not found: ${agreementId} / ${otherId}`);
+    return null;
+  }
+  if (agreement.game_ref !== other.game_ref) {
+    throw new Error("Related agreements must belong to the same game");
+  }
+  const game = await get<Game>(`${nodes.games}/${agreement.game_ref}`);
+  assertGameAllows(game?.status, "create_agreement");
+
+  // 2️⃣ Only the creator or a party may declare relations
+  const [controlled, votes, existing] = await Promise.all([
+    readControlledActors(agreement.game_ref, user.user_id),
+    getAgreementVotes(agreementId),
+    getAgreementDependencies(agreementId),
+  ]);
+  if (
+    agreement.creator_ref !== user.user_id &&
+    !controlled.some((aid) => aid in votes)
+  ) {
+    throw new Error("Only the creator or a party can relate this agreement");
+  }
+  if (existing.some((d) => d.agreement_ref === otherId)) {
+    throw new Error(`These agreements are already related`);
+  }
+
+  // 3️⃣ Directed relations must not loop back on themselves
+  if (kind !== "exclusive") {
+    const gameAgs = (await getCollection<Agreement>(nodes.agreements)).filter(
+      (a) => a?.game_ref === agreement.game_ref,
+    );
+    const edges: Record<string, string[]> = {};
+    await Promise.all(
+      gameAgs.map(async (a) => {
+        edges[a.agreement_id] = (await getAgreementDependencies(a.agreement_id))
+          .filter((d) => d.kind === kind && d.direction === "outgoing")
+          .map((d) => d.agreement_ref);
+      }),
+    );
+    if (wouldCreateCycle(agreementId, otherId, edges)) {
+      throw new Error(`That ${kind} relation would create a cycle`);
+    }
+  }
+
+  // 4️⃣ Applying it now must not contradict what is already in force
+  const now = Date.now();
+  const dependency: AgreementDependency = {
+    agreement_ref: otherId,
+    kind,
+    direction: "outgoing",
+    created_by: user.user_id,
+    created_at: now,
+  };
+  if (agreement.status === AgreementStatus.ACCEPTED) {
+    const reason = dependencyBlock([{ dependency, other }]);
+    if (reason) throw new Error(`"${agreement.title}" is already accepted, but ${reason}`);
+  }
+
+  // 5️⃣ Store it on both agreements
+  await write(`${nodes.agreements}/${agreementId}/dependencies`, otherId, dependency);
+  await write(`${nodes.agreements}/${otherId}/dependencies`, agreementId, {
+    ...dependency,
+    agreement_ref: agreementId,
+    direction: "incoming",
+  });
+
+  console.log(`[gameService] ${agreementId} ${kind} → ${otherId}`);
+  return dependency;
+}
+
+/**
+ * Remove the relation between two agreements (from both sides).
+ */
+export async function removeAgreementDependency(
+  agreementId: string,
+  otherId: string,
+): Promise<boolean> {
+  const user = getCurrentUser();
+  if (!user) return false;
+  const agreement = await get<Agreement>(`${nodes.agreements}/${agreementId}`);
+  if (!agreement) {
+    console.warn(`[gameService] Agreement not found: ${agreementId}`);
+    return false;
+  }
+  const game = await get<Game>(`${nodes.games}/${agreement.game_ref}`);
+  assertGameAllows(game?.status, "create_agreement");
+  const [controlled, votes] = await Promise.all([
+    readControlledActors(agreement.game_ref, user.user_id),
+    getAgreementVotes(agreementId),
+  ]);
+  if (
+    agreement.creator_ref !== user.user_id &&
+    !controlled.some((aid) => aid in votes)
+  ) {
+    throw new Error("Only the creator or a party can relate this agreement");
+  }
+  await write(`${nodes.agreements}/${agreementId}/dependencies`, otherId, null);
+  await write(`${nodes.agreements}/${otherId}/dependencies`, agreementId, null);
+  return true;
+}
+
+// helper: remove every set-edge under `fromSoul/field`
+async function removeEdges(fromSoul: string, field: string) {
+  const g = getGun();
+  if (!g) throw new Error("[gameService] Gun not initialized");
+  await new Promise<void>((resolve) => {
+    let done = false;
+    const timer = setTimeout(() => {
+      if (!done) {
+        done = true;
+        resolve();
+      }
+    }, 1000);
+
+    g.get(fromSoul)
+      .get(field)
+      .map()
+      .once((edgeValue: any) => {
+        if (done) return;
+        g.get(fromSoul)
+          .get(field)
+          .unset(edgeValue, () => {
+            if (!done) {
+              clearTimeout(timer);
+              done = true;
+              resolve();
+            }
+          });
+      });
+  });
+}
+
+// helper: null an agreement node and its nested maps (Gun tombstones)
+async function tombstoneAgreement(agreementId: string): Promise<void> {
+  await write(nodes.agreements, agreementId, null);
+  await Promise.all([
+    write(`${nodes.agreements}/${agreementId}`, "parties", null),
+    write(`${nodes.agreements}/${agreementId}`, "cards_ref", null),
+    write(`${nodes.agreements}/${agreementId}`, "votes", null),
+    write(`${nodes.agreements}/${agreementId}`, "revisions", null),
+    write(`${nodes.agreements}/${agreementId}`, "obligations", null),
+    write(`${nodes.agreements}/${agreementId}`, "benefits", null),
+    write(`${nodes.agreements}/${agreementId}`, "disputes", null),
+    write(`${nodes.agreements}/${agreementId}`, "drafts", null),
+    write(`${nodes.agreements}/${agreementId}`, "dependencies", null),
+    write(`${nodes.agreements}/${agreementId}`, "game_ref", null),
+    write(`${nodes.agreements}/${agreementId}`, "creator_ref", null),
+  ]);
+}
+
+/**
+ * Remove an agreement and all its relationships.
+ */
+export async function deleteAgreement(agreementId: string): Promise<boolean> {
+  console.log(`[gameService] ▶ deleteAgreement(${agreementId})`);
+
+  // 1️⃣ Load the root agreement
+  const agr = await get<Agreement>(`${nodes.agreements}/${agreementId}`);
+  if (!agr) {
+    console.warn(`[gameService] Agreement not found: ${agreementId}`);
+    return false;
+  }
+
+  // 2️⃣ Load nested maps
+  const partiesRecord =
+    (await getField<Record<string, { card_ref: string }>>(
+      `${nodes.agreements}/${agreementId}`,
+      "parties",
+    )) || {};
+  const gameId =
+    agr.game_ref ||
+    (await getField<string>(
+      `${nodes.agreements}/${agreementId}`,
+      "game_ref",
+    )) ||
+    "";
+  const creatorId =
+    agr.creator_ref ||
+    (await getField<string>(
+      `${nodes.agreements}/${agreementId}`,
+      "creator_ref",
+    )) ||
+    "";
+
+  console.log("[gameService] fetched agreement:", agr);
+  console.log("[gameService] loaded partiesRecord:", partiesRecord);
+
+  // 3️⃣ Remove edges
+  console.log("[gameService] unsetting edges...");
+  await Promise.all([
+    removeEdges(`${nodes.games}/${gameId}`, "agreements_ref"),
+    removeEdges(`${nodes.users}/${creatorId}`, "agreements_ref"),
+    ...Object.keys(partiesRecord).map((actorId) =>
+      removeEdges(`${nodes.actors}/${actorId}`, "agreements_ref"),
+    ),
+    ...Object.values(partiesRecord).map(({ card_ref }) =>
+      removeEdges(`${nodes.cards}/${card_ref}`, "agreements_ref"),
+    ),
+  ]);
+
+  // related agreements forget this one
+  const dependencies = await getAgreementDependencies(agreementId);
+  await Promise.all(
+    dependencies.map((d) =>
+      write(`${nodes.agreements}/${d.agreement_ref}/dependencies`, agreementId, null),
+    ),
+  );
+
+  console.log("[gameService] all edges removed, deleting node");
+
+  // 4️⃣ Delete the node and its nested maps
+  await tombstoneAgreement(agreementId);
+  if (gameId) {
+    await recordGameEvent(gameId, {
+      type: "agreement_deleted",
+      target_ref: agreementId,
+      summary: `"${agr.title}" was deleted`,
+    });
+  }
+
+  console.log(`[gameService] ✅ deleteAgreement complete for ${agreementId}`);
+
+  return true;
+}
+
+/**
+ * Delete a game and all its relationships.
+ */
+export async function deleteGame(gameId: string): Promise<boolean> {
+  console.log(`[gameService] ▶ deleteGame(${gameId})`);
+
+  // 1️⃣ Load the root game
+  const game = await get<Game>(`${nodes.games}/${gameId}`);
+  if (!game) {
+    console.warn(`[gameService] Game not found: ${gameId}`);
+    return false;
+  }
+
+  // 2️⃣ Load nested maps to clean up relationships - fix the Promise.all with proper async
+  const [playersMap, actorsRefMap, agreementsRefMap, playerActorMap] = await Promise.all([
+    getField<Record<string, boolean>>(`${nodes.games}/${gameId}`, "players"),
+    getField<Record<string, boolean>>(`${nodes.games}/${gameId}`, "actors_ref"),
+    getField<Record<string, boolean>>(`${nodes.games}/${gameId}`, "agreements_ref"),
+    getField<Record<string, string>>(`${nodes.games}/${gameId}`, "player_actor_map"),
+  ]);
+
+  console.log("[gameService] fetched game:", game);
+  console.log("[gameService] loaded playersMap:", playersMap);
+  console.log("[gameService] loaded actorsRefMap:", actorsRefMap);
+
+  // 3️⃣ Remove edges using removeEdges helper (consistent with deleteActor/deleteAgreement)
+  console.log("[gameService] cleaning up relationships...");
+  await Promise.all([
+    // Remove ref_set edges (matches createGame structure)
+    removeEdges(`${nodes.games}/${gameId}`, "ref_set"),
+    // Clean up nested map references from related entities
+    ...Object.keys(playersMap || {}).map(userId => 
+      removeEdges(`${nodes.users}/${userId}`, "games_ref")
+    ),
+    ...Object.keys(actorsRefMap || {}).map(actorId => 
+      removeEdges(`${nodes.actors}/${actorId}`, "games_ref")
+    ),
+    ...Object.keys(agreementsRefMap || {}).map(agreementId => 
+      removeEdges(`${nodes.agreements}/${agreementId}`, "game_ref")
+    ),
+  ]);
+
+  console.log("[gameService] all relationships cleaned, deleting game node");
+
+  // 4️⃣ Delete the game node and its nested maps using write(..., null) pattern
+  await write(nodes.games, gameId, null);
+  await Promise.all([
+    write(`${nodes.games}/${gameId}`, "players", null),
+    write(`${nodes.games}/${gameId}`, "actors_ref", null),
+    write(`${nodes.games}/${gameId}`, "agreements_ref", null),
+    write(`${nodes.games}/${gameId}`, "player_actor_map", null),
+    write(`${nodes.games}/${gameId}`, "chat_rooms_ref", null),
+    write(`${nodes.games}/${gameId}`, "ref_set", null),
+  ]);
+
+  console.log(`[gameService] ✅ deleteGame complete for ${gameId}`);
+  return true;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Deck flows
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Create a new deck with a sequential ID (d_1, d_2, …)
+ */
+export async function createDeck(
+  name: string,
+  description: string,
+  isPublic: boolean = false,
+): Promise<Deck | null> {
+  const user = getCurrentUser();
+  if (!user) return null;
+
+  // 1️⃣ find highest existing d_<num>
+  const existing = await getCollection<Deck>(nodes.decks);
+  let maxNum = 0;
+  for (const d of existing) {
+    const m = d.deck_id.match(/^d_(\d+)$/);
+    if (m) {
+      const n = parseInt(m[1], 10);
+      if (n > maxNum) maxNum = n;
+    }
+  }
+
+  // 2️⃣ pick next
+  const deckId = `d_${maxNum + 1}`;
+  const now = Date.now();
+
+  // 3️⃣ write root deck
+  await write(nodes.decks, deckId, {
+    deck_id: deckId,
+    name,
+    description,
+    creator_ref: user.user_id,
+    is_public: isPublic,
+    created_at: now,
+    updated_at: now,
+  });
+
+  // 4️⃣ init empty cards_ref map
+  await write(`${nodes.decks}/${deckId}`, "cards_ref", {});
+
+  return {
+    deck_id: deckId,
+    name,
+    description,
+    creator_ref: user.user_id,
+    is_public: isPublic,
+    cards_ref: {},
+    created_at: now,
+    updated_at: now,
+  };
+}
+
+/**
+ * Update any top‐level Deck fields (name, description, is_public, updated_at, etc.)
+ */
+export async function updateDeck(
+  deckId: string,
+  updates: Partial<Deck>,
+): Promise<boolean> {
+  updates.updated_at = Date.now();
+  // write each field under decks/<deckId>/
+  await Promise.all(
+    Object.entries(updates).map(([k, v]) =>
+      write(`${nodes.decks}/${deckId}`, k, v),
+    ),
+  );
+  return true;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Card flows
+// ────────────────────────────────────────────────────────────────so�────────────
+
+/**
+ * Create a new Card with a sequential ID (card_1, card_2, …) and attach it to a deck.
+ * Nested maps (values_ref, capabilities_ref, agreements_ref) all start empty.
+ */
+export async function createCard(
+  deckId: string,
+  data: {
+    card_number: number;
+    role_title: string;
+    backstory: string;
+    goals: string;
+    obligations: string;
+    intellectual_property: string;
+    resources: string;
+    card_category: string;
+    type: string;
+    icon: string;
+  },
+): Promise<Card | null> {
+  const user = getCurrentUser();
+  if (!user) return null;
+
+  // 1️⃣ find highest existing card_<num>
+  const existing = await getCollection<Card>(nodes.cards);
+  let maxNum = 0;
+  for (const c of existing) {
+    const m = c.card_id.match(/^card_(\d+)$/);
+    if (m) {
+      const n = parseInt(m[1], 10);
+      if (n > maxNum) maxNum = n;
+    }
+  }
+
+  // 2️⃣ assign new id
+  const cardId = `card_${maxNum + 1}`;
+  const now = Date.now();
+
+  // 3️⃣ write root card node
+  await write(nodes.cards, cardId, {
+    card_id: cardId,
+    card_number: data.card_number,
+    role_title: data.role_title,
+    backstory: data.backstory,
+    goals: data.goals,
+    obligations: data.obligations,
+    intellectual_property: data.intellectual_property,
+    resources: data.resources,
+    card_category: data.card_category,
+    type: data.type,
+    icon: data.icon,
+    creator_ref: user.user_id,
+    created_at: now,
+    updated_at: now,
+  });
+
+  // 4️⃣ nested refs under cards/<cardId>/
+  await Promise.all([
+    write(`${nodes.cards}/${cardId}`, "values_ref", {}),
+    write(`${nodes.cards}/${cardId}`, "capabilities_ref", {}),
+    write(`${nodes.cards}/${cardId}`, "agreements_ref", {}),
+    write(`${nodes.cards}/${cardId}`, "decks_ref", { [deckId]: true }),
+  ]);
+
+  // 5️⃣ pointer‐edges deck<→>card ((Don't do this it conflicts with maps, create new key for each, ie. ref_set))
+  // await Promise.all([
+  //   createRelationship(
+  //     `${nodes.decks}/${deckId}`,
+  //     "cards_ref",
+  //     `${nodes.cards}/${cardId}`,
+  //   ),
+  //   createRelationship(
+  //     `${nodes.cards}/${cardId}`,
+  //     "decks_ref",
+  //     `${nodes.decks}/${deckId}`,
+  //   ),
+  // ]);
+
+  // 6️⃣ return full Card
+  return {
+    card_id: cardId,
+    card_number: data.card_number,
+    role_title: data.role_title,
+    backstory: data.backstory,
+    goals: data.goals,
+    obligations: data.obligations,
+    intellectual_property: data.intellectual_property,
+    resources: data.resources,
+    card_category: data.card_category,
+    type: data.type,
+    icon: data.icon,
+    creator_ref: user.user_id,
+    values_ref: {},
+    capabilities_ref: {},
+    agreements_ref: {},
+    decks_ref: { [deckId]: true },
+    created_at: now,
+    updated_at: now,
+  };
+}
+
+/**
+ * Update any top‐level Card fields (role_title, backstory, etc.) or nested maps.
+ * Pass in partials; any field you include will be written under cards/<cardId>/.
+ */
+export async function updateCard(
+  cardId: string,
+  updates: Partial<Card>,
+): Promise<boolean> {
+  updates.updated_at = Date.now();
+  // write each field (nested or root) under cards/<cardId>/
+  await Promise.all(
+    Object.entries(updates).map(([k, v]) =>
+      write(`${nodes.cards}/${cardId}`, k, v),
+    ),
+  );
+  return true;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Bulk-fetch for Game Details page
+// ─────────────────────────────────────────────────────────────────────────────
+export async function getGameContext(
+  gameId: string,
+): Promise<GameContext | null> {
+  try {
+    // 0️⃣ init caches once
+    await initNameCaches();
+
+    // 1️⃣ raw game (completing it first if an end condition is met)
+    await evaluateGameEnd(gameId);
+    const rawGame = await get<Game>(`${nodes.games}/${gameId}`);
+    if (!rawGame) return null;
+
+    // 2️⃣ parallel fetch of boolean‐maps & nested refs
+    const [
+      playersMap,
+      observersMap,
+      actorRefMap,
+      agreementRefMap,
+      playerActorRaw,
+      deckCardMap,
+    ] = await Promise.all([
+      readMapOrSet(`${nodes.games}/${gameId}`, "players"),
+      readMapOrSet(`${nodes.games}/${gameId}`, "observers"),
+      getRefMap(`${nodes.games}/${gameId}`, "actors_ref"),
+      getRefMap(`${nodes.games}/${gameId}`, "agreements_ref"),
+      getField<Record<string, string>>(
+        `${nodes.games}/${gameId}`,
+        "player_actor_map",
+      ),
+      getRefMap(`${nodes.decks}/${rawGame.deck_ref}`, "cards_ref"),
+    ]);
+
+    // clean player→actor map
+    const playerActorMap = Object.fromEntries(
+      Object.entries(playerActorRaw || {}).filter(
+        ([k]) => k !== "#" && !k.startsWith("#"),
+      ),
+    );
+
+    // enriched game object
+    const gameWithPlayers: Game = {
+      ...rawGame,
+      game_id: gameId,
+      players: playersMap,
+      observers: observersMap,
+      actors_ref: actorRefMap,
+      player_actor_map: playerActorMap,
+    };
+
+    // 3️⃣ deck info
+    const deckId = rawGame.deck_ref;
+    const totalCards = Object.keys(deckCardMap).length;
+
+    // 4️⃣ fetch only this deck’s cards
+    const deckCardIds = Object.keys(deckCardMap);
+    const deckCards = (
+      await Promise.all(
+        deckCardIds.map((cardId) => get<Card>(`${nodes.cards}/${cardId}`)),
+      )
+    ).filter((c): c is Card => Boolean(c));
+
+    // 5️⃣ resolve each actor + their assigned card
+    const usedSet = new Set<string>();
+    const actors: ActorWithCard[] = [];
+
+    await Promise.all(
+      Object.keys(actorRefMap).map(async (aid) => {
+        const [actor, cardsByGame] = await Promise.all([
+          get<Actor>(`${nodes.actors}/${aid}`),
+          getMap(`${nodes.actors}/${aid}`, "cards_by_game"),
+        ]);
+        if (!actor) return;
+
+        const cardId = cardsByGame[gameId];
+        let card: CardWithPosition | undefined;
+
+        if (cardId) {
+          usedSet.add(cardId);
+          const rawCard = deckCards.find((c) => c.card_id === cardId);
+          if (rawCard) {
+            const [valMap, capMap] = await Promise.all([
+              getRefMap(`${nodes.cards}/${cardId}`, "values_ref"),
+              getRefMap(`${nodes.cards}/${cardId}`, "capabilities_ref"),
+            ]);
+            const [valueNames, capabilityNames] = await Promise.all([
+              resolveNamesCached(Object.keys(valMap), nodes.values),
+              resolveNamesCached(Object.keys(capMap), nodes.capabilities),
+            ]);
+            card = {
+              ...rawCard,
+              position: randomPos(),
+              _valueNames: valueNames,
+              _capabilityNames: capabilityNames,
+            };
+          }
+        }
+
+        actors.push({
+          ...actor,
+          cards_by_game: cardsByGame,
+          card,
+          position: randomPos(),
+        } as ActorWithCard);
+      }),
+    );
+
+    // 6️⃣ the leftover “available” cards
+    const availableCards: CardWithPosition[] = await Promise.all(
+      deckCards
+        .filter((c) => !usedSet.has(c.card_id))
+        .map(async (rawCard) => {
+          const [valMap, capMap] = await Promise.all([
+            getRefMap(`${nodes.cards}/${rawCard.card_id}`, "values_ref"),
+            getRefMap(`${nodes.cards}/${rawCard.card_id}`, "capabilities_ref"),
+          ]);
+          const [valueNames, capabilityNames] = await Promise.all([
+            resolveNamesCached(Object.keys(valMap), nodes.values),
+            resolveNamesCached(Object.keys(capMap), nodes.capabilities),
+          ]);
+          return {
+            ...rawCard,
+            position: randomPos(),
+            _valueNames: valueNames,
+            _capabilityNames: capabilityNames,
+          } as CardWithPosition;
+        }),
+    );
+
+    // 7️⃣ agreements for this game — now correctly fetch obligation & benefit
+    const rawAgs = await getCollection<Agreement>(nodes.agreements);
+    const agreements: AgreementWithPosition[] = await Promise.all(
+      rawAgs
+        .filter((ag) => ag.game_ref === gameId)
+        .map(async (ag) => {
+          const partiesRef =
+            (await getRefMap(
+              `${nodes.agreements}/${ag.agreement_id}`,
+              "parties",
+            )) ?? {};
+
+          const partyItems: PartyItem[] = await Promise.all(
+            Object.keys(partiesRef).map(async (actorId) => {
+              const pd = (await getField<Agreement["parties"][string]>(
+                `${nodes.agreements}/${ag.agreement_id}/parties`,
+                actorId,
+              )) ?? {
+                card_ref: "",
+                obligation: "",
+                benefit: "",
+              };
+
+              const actor = actors.find((a) => a.actor_id === actorId);
+              if (!actor?.card) {
+                console.warn(
+                  `Agreement ${ag.agreement_id} actor ${actorId} has no card`,
+                );
+                return null;
+              }
+
+              return {
+                actorId,
+                card: actor.card,
+                obligation: pd.obligation,
+                benefit: pd.benefit,
+                ...(pd.legal_entity ? { legal_entity: pd.legal_entity } : {}),
+                ...(pd.jurisdiction ? { jurisdiction: pd.jurisdiction } : {}),
+              } as PartyItem;
+            }),
+          ).then((arr) => arr.filter((x): x is PartyItem => Boolean(x)));
+
+          // a completed game is frozen: no expiry or deadline settling
+          const frozen = rawGame.status === GameStatus.COMPLETED;
+          const currentVotes = await getAgreementVotes(ag.agreement_id);
+          const settled = frozen
+            ? { agreement: ag, votes: currentVotes }
+            : await settleExpiry(ag, currentVotes);
+          const votes = settled.votes;
+          const status = frozen
+            ? ag.status
+            : await settleVoteDeadline(settled.agreement, votes);
+          const items = await getAgreementItems(ag.agreement_id);
+          const dependencies = await getAgreementDependencies(ag.agreement_id);
+
+          return {
+            ...settled.agreement,
+            status,
+            votes,
+            dependencies: Object.fromEntries(
+              dependencies.map((d) => [d.agreement_ref, d]),
+            ),
+            partyItems,
+            obligationItems: items.obligations,
+            benefitItems: items.benefits,
+            position: randomPos(),
+          };
+        }),
+    );
+
+    // 8️⃣ deck display name
+    const deckRec = await get<Deck>(`${nodes.decks}/${deckId}`);
+    const deckName = deckRec?.name ?? rawGame.deck_type;
+
+    const result: GameContext = {
+      game: gameWithPlayers,
+      actors,
+      totalCards,
+      usedCards: usedSet.size,
+      availableCards,
+      availableCardsCount: availableCards.length,
+      agreements,
+      deckName,
+    };
+
+    //dev‐only log
+    if (import.meta.env.DEV) {
+      console.log(
+        `[gameService] getGameContext full context for ${gameId}:`,
+        result,
+      );
+    }
+
+    // dev-only log (commented out to reduce noise)
+    // console.log(
+    //   `[gameService] getGameContext full context for ${gameId}:`,
+    //   result,
+    // );
+
+    return result;
+  } catch (e) {
+    console.error(`[gameService] getGameContext error for ${gameId}:`, e);
+    return null;
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Game snapshots
+// ─────────────────────────────────────────────────────────────────────────────
+
+// Game fields a restore never touches: identity, ownership and lifecycle
+const SNAPSHOT_PROTECTED_FIELDS = [
+  "game_id",
+  "creator_ref",
+  "created_at",
+  "status",
+  "observer_invite_code",
+];
+
+// helper: only the creator or an Admin may capture or restore
+async function requireFacilitator(
+  gameId: string,
+  action = "manage snapshots",
+): Promise<Game | null> {
+  const user = getCurrentUser();
+  if (!user) return null;
+  const game = await get<Game>(`${nodes.games}/${gameId}`);
+  if (!game) {
+    console.warn(`[gameService] Game not found: ${gameId}`);
+    return null;
+  }
+  if (game.creator_ref !== user.user_id && user.role !== "Admin") {
+    throw new Error(`Only the game creator or an admin can ${action}`);
+  }
+  return game;
+}
+
+export async function getGameSnapshots(gameId: string): Promise<GameSnapshot[]> {
+  const raw = await getCollection<GameSnapshot>(
+    buildShardedPath(nodes.game_snapshots, gameId),
+  );
+  return raw
+    .filter((snap) => snap && snap.snapshot_id && snap.state)
+    .sort((a, b) => b.created_at - a.created_at);
+}
+
+/**
+ * Save the game's current state under `name`: the game node and its maps,
+ * each actor's card in this game, every agreement (terms, votes, fulfilment
+ * items, relations) and node positions. Reads the stored nodes directly so
+ * capturing never settles expiries, vote deadlines or the end of the game.
+ */
+export async function captureGameSnapshot(
+  gameId: string,
+  name: string,
+): Promise<GameSnapshot | null> {
+  const user = getCurrentUser();
+  const rawGame = await requireFacilitator(gameId);
+  if (!rawGame || !user) return null;
+
+  // 1️⃣ Game node, its boolean maps and the player → actor maps
+  const [players, actorsRef, agreementsRef, playerActorRaw, coalitions] =
+    await Promise.all([
+      readMapOrSet(`${nodes.games}/${gameId}`, "players"),
+      getRefMap(`${nodes.games}/${gameId}`, "actors_ref"),
+      getRefMap(`${nodes.games}/${gameId}`, "agreements_ref"),
+      getField<Record<string, string>>(
+        `${nodes.games}/${gameId}`,
+        "player_actor_map",
+      ),
+      readCoalitions(gameId),
+    ]);
+  const game: Partial<Game> = {
+    ...primitiveFields(rawGame),
+    game_id: gameId,
+    players,
+    player_actor_map: Object.fromEntries(
+      Object.entries(playerActorRaw || {}).filter(([k]) => !k.startsWith("#")),
+    ),
+    player_actors: coalitions,
+    actors_ref: actorsRef,
+    agreements_ref: agreementsRef,
+  };
+
+  // 2️⃣ Each actor's card in this game
+  const actorCards = Object.fromEntries(
+    await Promise.all(
+      Object.keys(actorsRef).map(async (aid) => {
+        const cardsByGame = await getMap(
+          `${nodes.actors}/${aid}`,
+          "cards_by_game",
+        );
+        return [aid, cardsByGame[gameId] ?? null] as const;
+      }),
+    ),
+  );
+
+  // 3️⃣ Agreements with their nested maps, exactly as stored
+  const rawAgs = (await getCollection<Agreement>(nodes.agreements)).filter(
+    (ag) => ag.game_ref === gameId,
+  );
+  const agreements: Record<string, Agreement> = {};
+  await Promise.all(
+    rawAgs.map(async (ag) => {
+      const [parties, cardsRef, votes, items, dependencies] =
+        await Promise.all([
+          readParties(ag.agreement_id),
+          getRefMap(`${nodes.agreements}/${ag.agreement_id}`, "cards_ref"),
+          getAgreementVotes(ag.agreement_id),
+          getAgreementItems(ag.agreement_id),
+          getAgreementDependencies(ag.agreement_id),
+        ]);
+      agreements[ag.agreement_id] = {
+        ...(primitiveFields(ag) as Partial<Agreement>),
+        agreement_id: ag.agreement_id,
+        parties,
+        cards_ref: cardsRef,
+        votes,
+        obligations: Object.fromEntries(items.obligations.map((o) => [o.id, o])),
+        benefits: Object.fromEntries(items.benefits.map((b) => [b.id, b])),
+        dependencies: Object.fromEntries(
+          dependencies.map((d) => [d.agreement_ref, d]),
+        ),
+      } as Agreement;
+    }),
+  );
+
+  // 4️⃣ Stored node positions
+  const positions = Object.fromEntries(
+    (
+      await getCollection<NodePosition>(
+        buildShardedPath(nodes.node_positions, gameId),
+      )
+    )
+      .filter((p) => p && p.node_id)
+      .map((p) => [p.node_id, p]),
+  );
+
+  const now = Date.now();
+  const snapshot: GameSnapshot = {
+    snapshot_id: `snap_${now}_${Math.random().toString(36).slice(2, 6)}`,
+    game_ref: gameId,
+    name: name.trim() || new Date(now).toLocaleString(),
+    created_by: user.user_id,
+    created_at: now,
+    agreement_count: Object.keys(agreements).length,
+    state: serializeSnapshotState({
+      version: 1,
+      game,
+      actor_cards: actorCards,
+      agreements,
+      positions,
+    }),
+  };
+  await write(
+    buildShardedPath(nodes.game_snapshots, gameId),
+    snapshot.snapshot_id,
+    snapshot,
+  );
+  console.log(`[gameService] Captured ${snapshot.snapshot_id} of ${gameId}`);
+  return snapshot;
+}
+
+// helper: put an agreement back exactly as captured
+async function restoreAgreement(snap: Agreement): Promise<void> {
+  const id = snap.agreement_id;
+  const base = `${nodes.agreements}/${id}`;
+  const current = await get<Agreement>(base);
+  const keysOf = async (field: string) => Object.keys(await getRefMap(base, field));
+
+  // root fields (added ones such as ratified_round or active_dispute become null)
+  await write(
+    nodes.agreements,
+    id,
+    withTombstones(primitiveFields(snap), Object.keys(primitiveFields(current)), [
+      "agreement_id",
+    ]),
+  );
+
+  // nested maps, each with tombstones for entries added since
+  const [parties, cards, votes, obligations, benefits, dependencies] =
+    await Promise.all([
+      keysOf("parties"),
+      keysOf("cards_ref"),
+      keysOf("votes"),
+      keysOf("obligations"),
+      keysOf("benefits"),
+      keysOf("dependencies"),
+    ]);
+  // fulfilment fields set since the snapshot are cleared too
+  const items = <T extends ObligationItem | BenefitItem>(record: Record<string, T>) =>
+    Object.fromEntries(
+      Object.entries(record).map(([k, item]) => [
+        k,
+        {
+          due_date: null,
+          toActorId: null,
+          checked_by: null,
+          checked_at: null,
+          ...item,
+        },
+      ]),
+    );
+  await Promise.all([
+    write(base, "parties", withTombstones(snap.parties ?? {}, parties)),
+    write(base, "cards_ref", withTombstones(snap.cards_ref ?? {}, cards)),
+    write(base, "votes", withTombstones(snap.votes ?? {}, votes)),
+    write(base, "obligations", withTombstones(items(snap.obligations ?? {}), obligations)),
+    write(base, "benefits", withTombstones(items(snap.benefits ?? {}), benefits)),
+    write(base, "dependencies", withTombstones(snap.dependencies ?? {}, dependencies)),
+  ]);
+}
+
+/**
+ * Roll the game back to a snapshot. Agreements created since are tombstoned,
+ * actors who joined since lose their card and seat, and every map and field
+ * written since is nulled rather than left behind (Gun merges puts).
+ * The game's status is kept, and append-only history (revisions, drafts,
+ * disputes, chat) is not rewound.
+ */
+export async function restoreGameSnapshot(
+  gameId: string,
+  snapshotId: string,
+): Promise<boolean> {
+  const game = await requireFacilitator(gameId);
+  if (!game) return false;
+  if (effectiveStatus(game.status) === GameStatus.COMPLETED) {
+    throw new Error("A completed game cannot be rolled back");
+  }
+  const snapshot = await get<GameSnapshot>(
+    buildShardedPath(nodes.game_snapshots, gameId, snapshotId),
+  );
+  const state = parseSnapshotState(snapshot?.state);
+  if (!state) throw new Error("This snapshot cannot be read");
+
+  const gamePath = `${nodes.games}/${gameId}`;
+  const [players, pam, coalitions, actorsRef, agreementsRef, positions] = await Promise.all([
+    readMapOrSet(gamePath, "players"),
+    readPlayerActorMap(gameId),
+    readCoalitions(gameId),
+    getRefMap(gamePath, "actors_ref"),
+    getRefMap(gamePath, "agreements_ref"),
+    getCollection<NodePosition>(buildShardedPath(nodes.node_positions, gameId)),
+  ]);
+
+  // 1️⃣ Agreements: restore captured ones, tombstone the ones created since
+  const current = (await getCollection<Agreement>(nodes.agreements)).filter(
+    (ag) => ag && ag.game_ref === gameId,
+  );
+  const added = current.filter((ag) => !state.agreements[ag.agreement_id]);
+  await Promise.all(
+    added.map(async (ag) => {
+      const parties = Object.keys(
+        await getRefMap(`${nodes.agreements}/${ag.agreement_id}`, "parties"),
+      );
+      await Promise.all(
+        parties.map((aid) =>
+          write(`${nodes.actors}/${aid}`, "agreements_ref", { [ag.agreement_id]: null }),
+        ),
+      );
+      await tombstoneAgreement(ag.agreement_id);
+    }),
+  );
+  await Promise.all(Object.values(state.agreements).map(restoreAgreement));
+
+  // 2️⃣ Actors: captured cards back, later arrivals leave the game
+  const laterActors = Object.keys(actorsRef).filter(
+    (aid) => !(aid in state.actor_cards),
+  );
+  await Promise.all([
+    ...Object.entries(state.actor_cards).map(([aid, cardId]) =>
+      write(`${nodes.actors}/${aid}`, "cards_by_game", { [gameId]: cardId }),
+    ),
+    ...laterActors.map((aid) =>
+      Promise.all([
+        write(`${nodes.actors}/${aid}`, "cards_by_game", { [gameId]: null }),
+        write(`${nodes.actors}/${aid}`, "games_ref", { [gameId]: null }),
+      ]),
+    ),
+  ]);
+
+  // 3️⃣ Node positions
+  await write(
+    nodes.node_positions,
+    gameId,
+    withTombstones(
+      state.positions as Record<string, NodePosition>,
+      positions.map((p) => p?.node_id).filter(notNull),
+    ),
+  );
+
+  // 4️⃣ Game node and its maps last, so they never point at missing data
+  const {
+    players: snapPlayers,
+    player_actor_map,
+    player_actors,
+    actors_ref,
+    agreements_ref,
+    ...rest
+  } = state.game;
+  // snapshots from before coalition play fall back to player_actor_map alone
+  const coalitionUsers = [
+    ...new Set([...Object.keys(coalitions), ...Object.keys(player_actors ?? {})]),
+  ];
+  const snapFields = Object.fromEntries(
+    Object.entries(primitiveFields(rest)).filter(
+      ([k]) => !SNAPSHOT_PROTECTED_FIELDS.includes(k),
+    ),
+  );
+  const now = Date.now();
+  await Promise.all([
+    write(nodes.games, gameId, {
+      ...withTombstones(
+        snapFields,
+        Object.keys(primitiveFields(game)),
+        SNAPSHOT_PROTECTED_FIELDS,
+      ),
+      updated_at: now,
+    }),
+    write(gamePath, "players", withTombstones(snapPlayers ?? {}, Object.keys(players))),
+    write(
+      gamePath,
+      "player_actor_map",
+      withTombstones(player_actor_map ?? {}, Object.keys(pam)),
+    ),
+    ...coalitionUsers.map((uid) =>
+      write(
+        `${gamePath}/player_actors`,
+        uid,
+        withTombstones(player_actors?.[uid] ?? {}, Object.keys(coalitions[uid] ?? {})),
+      ),
+    ),
+    write(gamePath, "actors_ref", withTombstones(actors_ref ?? {}, Object.keys(actorsRef))),
+    write(
+      gamePath,
+      "agreements_ref",
+      withTombstones(agreements_ref ?? {}, Object.keys(agreementsRef)),
+    ),
+  ]);
+
+  console.log(
+    `[gameService] Restored ${gameId} to ${snapshotId} (${added.length} agreements tombstoned)`,
+  );
+  return true;
+}
+
+export async function deleteGameSnapshot(
+  gameId: string,
+  snapshotId: string,
+): Promise<boolean> {
+  if (!(await requireFacilitator(gameId))) return false;
+  await deleteKey(buildShardedPath(nodes.game_snapshots, gameId), snapshotId);
+  return true;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Facilitator console (every action lands in the game's moderation log)
+// ─────────────────────────────────────────────────────────────────────────────
+
+// helper: append one entry to moderation_log/<game_id>
+async function logModeration(
+  gameId: string,
+  entry: Pick<ModerationEntry, "action" | "target_ref" | "reason" | "details">,
+): Promise<ModerationEntry | null> {
+  const user = getCurrentUser();
+  if (!user) return null;
+  const now = Date.now();
+  // Gun rejects undefined, so optional fields are only set when present
+  const record: ModerationEntry = {
+    entry_id: `mod_${now}_${Math.random().toString(36).slice(2, 6)}`,
+    game_ref: gameId,
+    action: entry.action,
+    moderator_ref: user.user_id,
+    ...(entry.target_ref ? { target_ref: entry.target_ref } : {}),
+    ...(entry.reason?.trim() ? { reason: entry.reason.trim() } : {}),
+    ...(entry.details ? { details: entry.details } : {}),
+    created_at: now,
+  };
+  await write(buildShardedPath(nodes.moderation_log, gameId), record.entry_id, record);
+  return record;
+}
+
+export async function getModerationLog(gameId: string): Promise<ModerationEntry[]> {
+  const raw = await getCollection<ModerationEntry>(
+    buildShardedPath(nodes.moderation_log, gameId),
+  );
+  return raw
+    .filter((entry) => entry && entry.entry_id && entry.action)
+    .sort((a, b) => b.created_at - a.created_at);
+}
+
+export async function pauseGame(
+  gameId: string,
+  reason?: string,
+): Promise<Game | null> {
+  const game = await transitionGame(gameId, GameStatus.PAUSED);
+  if (game) await logModeration(gameId, { action: "pause", reason });
+  return game;
+}
+
+export async function resumeGame(
+  gameId: string,
+  reason?: string,
+): Promise<Game | null> {
+  const game = await transitionGame(gameId, GameStatus.ACTIVE);
+  if (game) await logModeration(gameId, { action: "resume", reason });
+  return game;
+}
+
+/**
+ * Remove a player from the game. Their actor leaves the game with them;
+ * agreements it is party to are kept. The creator cannot be removed.
+ */
+export async function kickPlayer(
+  gameId: string,
+  userId: string,
+  reason: string,
+): Promise<boolean> {
+  if (!reason.trim()) throw new Error("Give a reason for removing this player");
+  const game = await requireFacilitator(gameId, "remove players");
+  if (!game) return false;
+  if (userId === game.creator_ref) {
+    throw new Error("The game creator cannot be removed");
+  }
+  const players = await readMapOrSet(`${nodes.games}/${gameId}`, "players");
+  if (!players[userId]) throw new Error(`${userId} is not a player in this game`);
+
+  const actorId = await removePlayer(gameId, userId);
+  await recordGameEvent(gameId, {
+    type: "player_left",
+    actor_ref: actorId,
+    target_ref: userId,
+    summary: `${userId} was removed by the facilitator`,
+  });
+  await logModeration(gameId, {
+    action: "kick_player",
+    target_ref: userId,
+    reason,
+    details: actorId ? `released ${actorId}` : undefined,
+  });
+  return true;
+}
+
+/**
+ * Hand an actor in this game to another player, e.g. when its player drops
+ * out. The previous player keeps the rest of their coalition and the new
+ * one adds the actor to theirs and acts as it; `user_ref` follows the actor
+ * so the board and votes treat the new player as its owner.
+ */
+export async function reassignActor(
+  gameId: string,
+  actorId: string,
+  toUserId: string,
+  reason: string,
+): Promise<boolean> {
+  if (!reason.trim()) throw new Error("Give a reason for reassigning this actor");
+  if (!(await requireFacilitator(gameId, "reassign actors"))) return false;
+  const [players, actorsRef, pam, coalitions] = await Promise.all([
+    readMapOrSet(`${nodes.games}/${gameId}`, "players"),
+    readMapOrSet(`${nodes.games}/${gameId}`, "actors_ref"),
+    readPlayerActorMap(gameId),
+    readCoalitions(gameId),
+  ]);
+  if (!actorsRef[actorId]) throw new Error(`Actor ${actorId} is not in this game`);
+  if (!players[toUserId]) {
+    throw new Error("Actors can only be given to players in this game");
+  }
+  const fromUserId = Object.keys(coalitions).find((uid) => coalitions[uid][actorId]);
+  if (fromUserId === toUserId) throw new Error("That player already plays this actor");
+  // the previous player acts as another of their actors, if they have one
+  const fromNext = fromUserId
+    ? Object.keys(coalitions[fromUserId]).find((aid) => aid !== actorId)
+    : undefined;
+
+  const now = Date.now();
+  const coalitionsPath = `${nodes.games}/${gameId}/player_actors`;
+  await Promise.all([
+    write(`${nodes.games}/${gameId}`, "player_actor_map", {
+      ...(fromUserId && pam[fromUserId] === actorId
+        ? { [fromUserId]: fromNext ?? null }
+        : {}),
+      [toUserId]: actorId,
+    }),
+    ...(fromUserId ? [write(coalitionsPath, fromUserId, { [actorId]: null })] : []),
+    write(coalitionsPath, toUserId, {
+      ...coalitions[toUserId],
+      [actorId]: true,
+    }),
+    write(nodes.actors, actorId, { user_ref: toUserId, updated_at: now }),
+  ]);
+  await recordGameEvent(gameId, {
+    type: "actor_reassigned",
+    actor_ref: actorId,
+    target_ref: toUserId,
+    summary: `${actorId} handed to ${toUserId}`,
+  });
+  await logModeration(gameId, {
+    action: "reassign_actor",
+    target_ref: actorId,
+    reason,
+    details: `${fromUserId ?? "unplayed"} → ${toUserId}`,
+  });
+  return true;
+}
+
+/**
+ * Settle an agreement without a vote: "accept" ratifies a proposal, "veto"
+ * rejects it (accepted agreements can be vetoed too). A reason is required;
+ * disputed agreements go through the mediator, and an open negotiation must
+ * be sent to vote first so its draft is applied or closed.
+ */
+export async function forceAgreementDecision(
+  agreementId: string,
+  decision: "accept" | "veto",
+  reason: string,
+): Promise<boolean> {
+  if (!reason.trim()) throw new Error("Give a reason for overriding the vote");
+  const agreement = await get<Agreement>(`${nodes.agreements}/${agreementId}`);
+  if (!agreement) {
+    console.warn(`[gameService] Agreement not found: ${agreementId}`);
+    return false;
+  }
+  const game = await requireFacilitator(agreement.game_ref, "override agreements");
+  if (!game) return false;
+  if (effectiveStatus(game.status) === GameStatus.COMPLETED) {
+    throw new Error("This game is completed");
+  }
+
+  if (agreement.status === AgreementStatus.NEGOTIATING) {
+    throw new Error("Send the current draft to vote before overriding this agreement");
+  }
+  const allowed =
+    decision === "accept"
+      ? [AgreementStatus.PROPOSED]
+      : [AgreementStatus.PROPOSED, AgreementStatus.ACCEPTED];
+  if (!allowed.includes(agreement.status)) {
+    const verb = decision === "accept" ? "force-accepted" : "vetoed";
+    throw new Error(`A ${agreement.status} agreement cannot be ${verb}`);
+  }
+
+  const status =
+    decision === "accept" ? AgreementStatus.ACCEPTED : AgreementStatus.REJECTED;
+  await updateAgreement(agreementId, { status });
+  await logModeration(agreement.game_ref, {
+    action: decision === "accept" ? "force_accept" : "veto",
+    target_ref: agreementId,
+    reason,
+    details: `${agreement.status} → ${status}`,
+  });
+  return true;
+}
+
+/** Post a facilitator announcement to the game's group chat */
+export async function broadcastAnnouncement(
+  gameId: string,
+  text: string,
+): Promise<ChatMessage | null> {
+  const content = text.trim();
+  if (!content) throw new Error("An announcement cannot be empty");
+  if (!(await requireFacilitator(gameId, "broadcast announcements"))) return null;
+  const message = await sendMessage(gameId, content, "group", undefined, {
+    announcement: true,
+  });
+  if (message) {
+    await logModeration(gameId, {
+      action: "announcement",
+      target_ref: message.message_id,
+      details: content,
+    });
+  }
+  return message;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Resource ledger (typed holdings per actor per game)
+// ─────────────────────────────────────────────────────────────────────────────
+
+export async function getResourceLedger(
+  gameId: string,
+): Promise<ResourceLedgerEntry[]> {
+  const raw = await getCollection<ResourceLedgerEntry>(
+    buildShardedPath(nodes.resource_ledger, gameId),
+  );
+  return raw
+    .filter((e) => e && e.entry_id && e.to_actor && typeof e.amount === "number")
+    .sort((a, b) => a.created_at - b.created_at);
+}
+
+/**
+ * Seed each actor's holdings from the `resources` text of its card in this
+ * game. Seed entries are keyed by actor and resource, so seeding again is
+ * idempotent; pass the current ledger to also drop seeds from a card the
+ * actor no longer holds (a null card clears them all) and close out the
+ * transfers made under it, so the actor starts over from the new card.
+ */
+async function seedResources(
+  gameId: string,
+  cards: Record<string, Card | null>,
+  ledger?: ResourceLedgerEntry[],
+): Promise<void> {
+  const user = getCurrentUser();
+  const path = buildShardedPath(nodes.resource_ledger, gameId);
+  const now = Date.now();
+  const fresh: ResourceLedgerEntry[] = Object.entries(cards).flatMap(
+    ([actorId, card]) =>
+      parseCardResources(card?.resources).map((q) => ({
+        ...q,
+        entry_id: `seed_${actorId}_${q.resource_id}`,
+        game_ref: gameId,
+        entry_type: "seed" as const,
+        to_actor: actorId,
+        created_by: user?.user_id ?? "",
+        created_at: now,
+      })),
+  );
+  const keep = new Set(fresh.map((e) => e.entry_id));
+  const stale = (ledger ?? []).filter(
+    (e) => e.entry_type === "seed" && e.to_actor in cards && !keep.has(e.entry_id),
+  );
+  // counterparties keep what they received; only this actor's side is reset
+  const closeouts: ResourceLedgerEntry[] = ledger
+    ? Object.keys(cards).flatMap((actorId) =>
+        transferNet(ledger, actorId).map((q) => ({
+          ...q,
+          amount: -q.amount,
+          entry_id: `close_${actorId}_${q.resource_id}_${now}`,
+          game_ref: gameId,
+          entry_type: "closeout" as const,
+          to_actor: actorId,
+          note: "Transfers under the previous card closed out",
+          created_by: user?.user_id ?? "",
+          created_at: now,
+        })),
+      )
+    : [];
+  await Promise.all([
+    ...stale.map((e) => write(path, e.entry_id, null)),
+    ...[...fresh, ...closeouts].map((e) => write(path, e.entry_id, e)),
+  ]);
+}
 
-        const cardId = cardsByGame[gameId];
-        let card: CardWithPosition | undefined;
+/**
+ * Post a transfer between two parties of an accepted agreement, e.g. the
+ * $10K one party pledged to another. Only the paying actor's player (or the
+ * facilitator) may post it, and the payer must hold enough of the resource.
+ */
+export async function postResourceTransfer(
+  agreementId: string,
+  transfer: {
+    from_actor: string;
+    to_actor: string;
+    resource_id: string;
+    amount: number;
+    note?: string;
+  },
+): Promise<ResourceLedgerEntry | null> {
+  const user = getCurrentUser();
+  if (!user) return null;
 
-        if (cardId) {
-          usedSet.add(cardId);
-          const rawCard = deckCards.find((c) => c.card_id === cardId);
-          if (rawCard) {
-            const [valMap, capMap] = await Promise.all([
-              getRefMap(`${nodes.cards}/${cardId}`, "values_ref"),
-              getRefMap(`${nodes.cards}/${cardId}`, "capabilities_ref"),
-            ]);
-            const [valueNames, capabilityNames] = await Promise.all([
-              resolveNamesCached(Object.keys(valMap), nodes.values),
-              resolveNamesCached(Object.keys(capMap), nodes.capabilities),
-            ]);
-            card = {
-              ...rawCard,
-              position: randomPos(),
-              _valueNames: valueNames,
-              _capabilityNames: capabilityNames,
-            };
-          }
-        }
+  // 1️⃣ The agreement must be in force and both actors party to it
+  const agreement = await get<Agreement>(`${nodes.agreements}/${agreementId}`);
+  if (!agreement) {
+    console.warn(`[gameService] Agreement not found: ${agreementId}`);
+    return null;
+  }
+  if (agreement.status !== AgreementStatus.ACCEPTED) {
+    throw new Error("Only accepted agreements can post transfers");
+  }
+  const gameId = agreement.game_ref;
+  const [game, parties, controlled] = await Promise.all([
+    get<Game>(`${nodes.games}/${gameId}`),
+    readParties(agreementId),
+    readControlledActors(gameId, user.user_id),
+  ]);
+  if (effectiveStatus(game?.status) === GameStatus.COMPLETED) {
+    throw new Error("This game is completed");
+  }
+  const { from_actor, to_actor, resource_id, amount } = transfer;
+  if (!parties[from_actor] || !parties[to_actor]) {
+    throw new Error("Transfers can only move resources between parties to the agreement");
+  }
+  if (from_actor === to_actor) throw new Error("Choose two different parties");
+  if (!Number.isFinite(amount) || amount <= 0) {
+    throw new Error("The amount must be greater than zero");
+  }
 
-        actors.push({
-          ...actor,
-          cards_by_game: cardsByGame,
-          card,
-          position: randomPos(),
-        } as ActorWithCard);
-      }),
-    );
+  // 2️⃣ The payer's player or the facilitator posts it
+  const isFacilitator =
+    game?.creator_ref === user.user_id || user.role === "Admin";
+  if (!controlled.includes(from_actor) && !isFacilitator) {
+    throw new Error(`You do not control actor ${from_actor} in this game`);
+  }
 
-    // 6️⃣ the leftover “available” cards
-    const availableCards: CardWithPosition[] = await Promise.all(
-      deckCards
-        .filter((c) => !usedSet.has(c.card_id))
-        .map(async (rawCard) => {
-          const [valMap, capMap] = await Promise.all([
-            getRefMap(`${nodes.cards}/${rawCard.card_id}`, "values_ref"),
-            getRefMap(`${nodes.cards}/${rawCard.card_id}`, "capabilities_ref"),
-          ]);
-          const [valueNames, capabilityNames] = await Promise.all([
-            resolveNamesCached(Object.keys(valMap), nodes.values),
-            resolveNamesCached(Object.keys(capMap), nodes.capabilities),
-          ]);
-          return {
-            ...rawCard,
-            position: randomPos(),
-            _valueNames: valueNames,
-            _capabilityNames: capabilityNames,
-          } as CardWithPosition;
-        }),
+  // 3️⃣ The payer must hold enough
+  const held = ledgerBalances(await getResourceLedger(gameId))[from_actor]?.[resource_id];
+  if (!held || held.amount < amount) {
+    throw new Error(
+      `${from_actor} only holds ${held ? formatQuantity(held) : `no ${resource_id.replace(/^custom_/, "")}`}`,
     );
+  }
 
-    // 7️⃣ agreements for this game — now correctly fetch obligation & benefit
-    const rawAgs = await getCollection<Agreement>(nodes.agreements);
-    const agreements: AgreementWithPosition[] = await Promise.all(
-      rawAgs
-        .filter((ag) => ag.game_ref === gameId)
-        .map(async (ag) => {
-          const partiesRef =
-            (await getRefMap(
-              `${nodes.agreements}/${ag.agreement_id}`,
-              "parties",
-            )) ?? {};
+  // 4️⃣ Append the transfer
+  const now = Date.now();
+  const entry: ResourceLedgerEntry = {
+    entry_id: `tx_${now}_${Math.random().toString(36).slice(2, 6)}`,
+    game_ref: gameId,
+    entry_type: "transfer",
+    resource_id,
+    kind: held.kind,
+    unit: held.unit,
+    amount,
+    from_actor,
+    to_actor,
+    agreement_ref: agreementId,
+    ...(transfer.note?.trim() ? { note: transfer.note.trim() } : {}),
+    created_by: user.user_id,
+    created_at: now,
+  };
+  await write(buildShardedPath(nodes.resource_ledger, gameId), entry.entry_id, entry);
+  await recordGameEvent(gameId, {
+    type: "resource_transfer",
+    actor_ref: from_actor,
+    target_ref: agreementId,
+    summary: `${from_actor} transferred ${formatQuantity(entry)} to ${to_actor} under "${agreement.title}"`,
+  });
+  return entry;
+}
 
-          const partyItems: PartyItem[] = await Promise.all(
-            Object.keys(partiesRef).map(async (actorId) => {
-              const pd = (await getField<{
-                card_ref: string;
-                obligation: string;
-                benefit: string;
-              }>(
-                `${nodes.agreements}/${ag.agreement_id}/parties`,
-                actorId,
-              )) ?? {
-                card_ref: "",
-                obligation: "",
-                benefit: "",
-              };
+// ─────────────────────────────────────────────────────────────────────────────
+// Actor reputation (track record across games)
+// ─────────────────────────────────────────────────────────────────────────────
 
-              const actor = actors.find((a) => a.actor_id === actorId);
-              if (!actor?.card) {
-                console.warn(
-                  `Agreement ${ag.agreement_id} actor ${actorId} has no card`,
-                );
-                return null;
-              }
+/**
+ * Aggregate an actor's record over every game it has played (`games_ref`
+ * plus `game_history`, which leaving or being kicked doesn't clear): ratified
+ * agreements it was a party to, how many it fulfilled or breached, and the
+ * disputes it lost. Nothing is stored; the profile is recomputed from the
+ * agreements each time, so it can't drift from what actually happened.
+ */
+export async function getActorProfile(
+  actorId: string,
+): Promise<ActorProfile | null> {
+  const actor = await get<Actor>(`${nodes.actors}/${actorId}`);
+  if (!actor) return null;
 
-              return {
-                actorId,
-                card: actor.card,
-                obligation: pd.obligation,
-                benefit: pd.benefit,
-              } as PartyItem;
-            }),
-          ).then((arr) => arr.filter((x): x is PartyItem => Boolean(x)));
+  const [current, history] = await Promise.all([
+    readMapOrSet(`${nodes.actors}/${actorId}`, "games_ref"),
+    readMapOrSet(`${nodes.actors}/${actorId}`, "game_history"),
+  ]);
+  const gameIds = Object.keys({ ...history, ...current });
+  const agreementIds = (
+    await Promise.all(
+      gameIds.map((gid) => readMapOrSet(`${nodes.games}/${gid}`, "agreements_ref")),
+    )
+  ).flatMap((m) => Object.keys(m));
+
+  const tallies = await Promise.all(
+    agreementIds.map(async (agreementId) => {
+      const base = `${nodes.agreements}/${agreementId}`;
+      const parties = await getRefMap(base, "parties");
+      if (!parties[actorId]) return null;
+      const [status, items, disputes] = await Promise.all([
+        getField<AgreementStatus>(base, "status"),
+        getAgreementItems(agreementId),
+        getAgreementDisputes(agreementId),
+      ]);
+      if (!status) return null;
+      return tallyAgreement(actorId, status, items.obligations, disputes);
+    }),
+  );
 
-          return {
-            ...ag,
-            partyItems,
-            position: randomPos(),
-          };
-        }),
-    );
+  const totals = tallies.filter(notNull).reduce(
+    (sum, t) => ({
+      agreements_made: sum.agreements_made + t.agreements_made,
+      agreements_fulfilled: sum.agreements_fulfilled + t.agreements_fulfilled,
+      agreements_breached: sum.agreements_breached + t.agreements_breached,
+      disputes_lost: sum.disputes_lost + t.disputes_lost,
+    }),
+    {
+      agreements_made: 0,
+      agreements_fulfilled: 0,
+      agreements_breached: 0,
+      disputes_lost: 0,
+    },
+  );
 
-    // 8️⃣ deck display name
-    const deckRec = await get<Deck>(`${nodes.decks}/${deckId}`);
-    const deckName = deckRec?.name ?? rawGame.deck_type;
+  return {
+    actor_id: actorId,
+    games_played: gameIds.length,
+    ...totals,
+    reputation: reputationScore(totals),
+  };
+}
 
-    const result: GameContext = {
-      game: gameWithPlayers,
-      actors,
-      totalCards,
-      usedCards: usedSet.size,
-      availableCards,
-      availableCardsCount: availableCards.length,
-      agreements,
-      deckName,
-    };
+// Profiles for several actors at once, keyed by actor_id
+export async function getActorProfiles(
+  actorIds: string[],
+): Promise<Record<string, ActorProfile>> {
+  const profiles = await Promise.all(actorIds.map(getActorProfile));
+  return Object.fromEntries(
+    profiles.filter(notNull).map((p) => [p.actor_id, p]),
+  );
+}
 
-    //dev‐only log
-    if (import.meta.env.DEV) {
-      console.log(
-        `[gameService] getGameContext full context for ${gameId}:`,
-        result,
-      );
-    }
+// ─────────────────────────────────────────────────────────────────────────────
+// Card trades (swap roles with another player or take an unused card)
+// ─────────────────────────────────────────────────────────────────────────────
 
-    // dev-only log (commented out to reduce noise)
-    // console.log(
-    //   `[gameService] getGameContext full context for ${gameId}:`,
-    //   result,
-    // );
+// Agreement statuses whose parties may still change cards
+const CLOSED_AGREEMENT_STATUSES: AgreementStatus[] = [
+  AgreementStatus.REJECTED,
+  AgreementStatus.COMPLETED,
+  AgreementStatus.EXPIRED,
+];
 
-    return result;
-  } catch (e) {
-    console.error(`[gameService] getGameContext error for ${gameId}:`, e);
+export async function getCardTrades(gameId: string): Promise<CardTrade[]> {
+  const raw = await getCollection<CardTrade>(
+    buildShardedPath(nodes.card_trades, gameId),
+  );
+  return raw
+    .filter((t) => t && t.trade_id && t.from_actor && t.status)
+    .sort((a, b) => a.created_at - b.created_at);
+}
+
+// Live updates for the trades of one game
+export function subscribeToCardTrades(
+  gameId: string,
+  callback: (trade: CardTrade) => void,
+): () => void {
+  const gun = getGun();
+  if (!gun) return () => {};
+
+  const listener = gun
+    .get(buildShardedPath(nodes.card_trades, gameId))
+    .map()
+    .on((data: any, key?: string) => {
+      if (typeof data !== "object" || data === null) return;
+      if (!("status" in data) || !("from_actor" in data)) return; // skip partial updates
+      callback({ ...data, trade_id: key! });
+    });
+
+  return () => listener.off();
+}
+
+// helper: the card an actor holds in a game, if any
+async function heldCard(gameId: string, actorId: string): Promise<string | null> {
+  const cardsByGame = await getMap(`${nodes.actors}/${actorId}`, "cards_by_game");
+  return cardsByGame[gameId] ?? null;
+}
+
+// helper: shared checks before the current user trades as `actorId`
+async function requireTrader(
+  gameId: string,
+  actorId: string,
+): Promise<{ user: User; game: Game }> {
+  const user = getCurrentUser();
+  if (!user) throw new Error("You must be logged in to trade cards");
+  const game = await get<Game>(`${nodes.games}/${gameId}`);
+  if (!game) throw new Error(`Game not found: ${gameId}`);
+  assertGameAllows(game.status, "choose_actor");
+  await assertNotObserving(gameId, user.user_id, "trade cards");
+  await assertControls(gameId, user.user_id, actorId);
+  return { user, game };
+}
+
+/**
+ * Give actors new cards in a game. Besides `cards_by_game`, every party
+ * entry on the game's open agreements follows the card (`card_ref` and the
+ * agreement's `cards_ref`), and holdings are reseeded from the new cards.
+ */
+async function moveCards(
+  gameId: string,
+  moves: Record<string, { from: string; to: Card }>,
+): Promise<void> {
+  // 1️⃣ The actors' cards
+  await Promise.all(
+    Object.entries(moves).map(([actorId, m]) =>
+      write(`${nodes.actors}/${actorId}`, "cards_by_game", {
+        [gameId]: m.to.card_id,
+      }),
+    ),
+  );
+
+  // 2️⃣ Party entries on open agreements
+  const agreementIds = Object.keys(
+    await readMapOrSet(`${nodes.games}/${gameId}`, "agreements_ref"),
+  );
+  await Promise.all(
+    agreementIds.map(async (agreementId) => {
+      const base = `${nodes.agreements}/${agreementId}`;
+      const [status, parties] = await Promise.all([
+        getField<AgreementStatus>(base, "status"),
+        getRefMap(base, "parties"),
+      ]);
+      if (!status || CLOSED_AGREEMENT_STATUSES.includes(status)) return;
+      const moved = Object.keys(moves).filter((aid) => parties[aid]);
+      if (!moved.length) return;
+
+      // drop the old cards first so a swap inside one agreement keeps both
+      const cardsRef: Record<string, boolean | null> = {};
+      moved.forEach((aid) => (cardsRef[moves[aid].from] = null));
+      moved.forEach((aid) => (cardsRef[moves[aid].to.card_id] = true));
+      await Promise.all([
+        ...moved.map((aid) =>
+          write(`${base}/parties`, aid, { card_ref: moves[aid].to.card_id }),
+        ),
+        write(base, "cards_ref", cardsRef),
+        write(nodes.agreements, agreementId, { updated_at: Date.now() }),
+      ]);
+    }),
+  );
+
+  // 3️⃣ Holdings follow the card
+  await seedResources(
+    gameId,
+    Object.fromEntries(Object.entries(moves).map(([aid, m]) => [aid, m.to])),
+    await getResourceLedger(gameId),
+  );
+}
+
+/**
+ * Offer to swap cards with another player's actor. Nothing moves until the
+ * other player accepts with `respondToCardSwap`.
+ */
+export async function offerCardSwap(
+  gameId: string,
+  fromActorId: string,
+  toActorId: string,
+): Promise<CardTrade | null> {
+  const { user } = await requireTrader(gameId, fromActorId);
+  if (fromActorId === toActorId) throw new Error("Choose another player's actor");
+
+  // 1️⃣ Both actors must hold a card, and the other one must have a player
+  const [controllers, fromCard, toCard, trades] = await Promise.all([
+    readActorControllers(gameId),
+    heldCard(gameId, fromActorId),
+    heldCard(gameId, toActorId),
+    getCardTrades(gameId),
+  ]);
+  const toUser = controllers[toActorId];
+  if (toUser === user.user_id) throw new Error("You already control both actors");
+  if (!fromCard || !toCard) throw new Error("Both actors need a card to swap");
+  if (!toUser) throw new Error(`Actor ${toActorId} has no player to accept the swap`);
+  if (
+    trades.some(
+      (t) =>
+        t.status === "pending" &&
+        t.from_actor === fromActorId &&
+        t.to_actor === toActorId,
+    )
+  ) {
+    throw new Error("You already have a pending offer to this player");
+  }
+
+  // 2️⃣ Each actor's type must allow the card it would receive
+  const [actorA, actorB, cardA, cardB] = await Promise.all([
+    get<Actor>(`${nodes.actors}/${fromActorId}`),
+    get<Actor>(`${nodes.actors}/${toActorId}`),
+    get<Card>(`${nodes.cards}/${fromCard}`),
+    get<Card>(`${nodes.cards}/${toCard}`),
+  ]);
+  if (!actorA || !actorB || !cardA || !cardB) return null;
+  assertCanHoldCard(actorA.actor_type, cardB);
+  assertCanHoldCard(actorB.actor_type, cardA);
+
+  // 3️⃣ Record the offer
+  const now = Date.now();
+  const trade: CardTrade = {
+    trade_id: `trade_${now}_${Math.random().toString(36).slice(2, 6)}`,
+    game_ref: gameId,
+    kind: "swap",
+    from_actor: fromActorId,
+    from_user: user.user_id,
+    from_card: fromCard,
+    to_actor: toActorId,
+    to_user: toUser,
+    to_card: toCard,
+    status: "pending",
+    created_at: now,
+  };
+  await write(buildShardedPath(nodes.card_trades, gameId), trade.trade_id, trade);
+  return trade;
+}
+
+/**
+ * Accept or decline a swap offered to the current user's actor. An accepted
+ * swap only goes through while both actors still hold the offered cards.
+ */
+export async function respondToCardSwap(
+  gameId: string,
+  tradeId: string,
+  accept: boolean,
+): Promise<CardTrade | null> {
+  const path = buildShardedPath(nodes.card_trades, gameId);
+  const trade = await getField<CardTrade>(path, tradeId);
+  if (!trade?.to_actor || trade.kind !== "swap") {
+    console.warn(`[gameService] Card trade not found: ${gameId}/${tradeId}`);
     return null;
   }
+  if (trade.status !== "pending") throw new Error(`This offer was already ${trade.status}`);
+  await requireTrader(gameId, trade.to_actor);
+
+  const now = Date.now();
+  if (!accept) {
+    await write(path, tradeId, { status: "declined", resolved_at: now });
+    return { ...trade, status: "declined", resolved_at: now };
+  }
+
+  // 1️⃣ Nothing may have changed hands since the offer
+  const [fromCard, toCard] = await Promise.all([
+    heldCard(gameId, trade.from_actor),
+    heldCard(gameId, trade.to_actor),
+  ]);
+  if (fromCard !== trade.from_card || toCard !== trade.to_card) {
+    await write(path, tradeId, { status: "cancelled", resolved_at: now });
+    throw new Error("The cards changed since this offer was made");
+  }
+
+  // 2️⃣ Re-check the type rules and swap
+  const [actorA, actorB, cardA, cardB] = await Promise.all([
+    get<Actor>(`${nodes.actors}/${trade.from_actor}`),
+    get<Actor>(`${nodes.actors}/${trade.to_actor}`),
+    get<Card>(`${nodes.cards}/${trade.from_card}`),
+    get<Card>(`${nodes.cards}/${trade.to_card}`),
+  ]);
+  if (!actorA || !actorB || !cardA || !cardB) return null;
+  assertCanHoldCard(actorA.actor_type, cardB);
+  assertCanHoldCard(actorB.actor_type, cardA);
+  await moveCards(gameId, {
+    [trade.from_actor]: { from: trade.from_card, to: cardB },
+    [trade.to_actor]: { from: trade.to_card, to: cardA },
+  });
+
+  // 3️⃣ Close the offer and log it
+  await write(path, tradeId, { status: "accepted", resolved_at: now });
+  await recordGameEvent(gameId, {
+    type: "card_traded",
+    actor_ref: trade.from_actor,
+    target_ref: trade.to_actor,
+    summary: `${actorA.custom_name || trade.from_actor} (${cardA.role_title}) and ${actorB.custom_name || trade.to_actor} (${cardB.role_title}) swapped roles`,
+  });
+  return { ...trade, status: "accepted", resolved_at: now };
+}
+
+// Withdraw a pending swap the current user offered
+export async function cancelCardSwap(
+  gameId: string,
+  tradeId: string,
+): Promise<boolean> {
+  const user = getCurrentUser();
+  if (!user) return false;
+  const path = buildShardedPath(nodes.card_trades, gameId);
+  const trade = await getField<CardTrade>(path, tradeId);
+  if (!trade || trade.status !== "pending") return false;
+  if (trade.from_user !== user.user_id) {
+    throw new Error("Only the player who made the offer can withdraw it");
+  }
+  await write(path, tradeId, { status: "cancelled", resolved_at: Date.now() });
+  return true;
+}
+
+/**
+ * Trade the actor's card for one of the deck's cards nobody in the game
+ * holds. Only the actor's own player has to agree, so this applies at once.
+ */
+export async function takeUnusedCard(
+  gameId: string,
+  actorId: string,
+  cardId: string,
+): Promise<CardTrade | null> {
+  const { user, game } = await requireTrader(gameId, actorId);
+
+  // 1️⃣ The card must be in the deck and free
+  const [deckCards, actorsRef, pam, fromCard] = await Promise.all([
+    getRefMap(`${nodes.decks}/${game.deck_ref}`, "cards_ref"),
+    getRefMap(`${nodes.games}/${gameId}`, "actors_ref"),
+    readPlayerActorMap(gameId),
+    heldCard(gameId, actorId),
+  ]);
+  if (!fromCard) throw new Error("Your actor has no card to trade in");
+  if (!deckCards[cardId]) throw new Error("That card is not in this game's deck");
+  const actorIds = [
+    ...new Set([...Object.keys(actorsRef), ...Object.values(pam).filter(notNull)]),
+  ];
+  const held = await Promise.all(actorIds.map((aid) => heldCard(gameId, aid)));
+  if (held.includes(cardId)) throw new Error("Another actor already holds that card");
+
+  // 2️⃣ Type rules, then move
+  const [actor, oldCard, newCard] = await Promise.all([
+    get<Actor>(`${nodes.actors}/${actorId}`),
+    get<Card>(`${nodes.cards}/${fromCard}`),
+    get<Card>(`${nodes.cards}/${cardId}`),
+  ]);
+  if (!actor || !newCard) return null;
+  assertCanHoldCard(actor.actor_type, newCard);
+  await moveCards(gameId, { [actorId]: { from: fromCard, to: newCard } });
+
+  // 3️⃣ Log it as an already accepted trade
+  const now = Date.now();
+  const trade: CardTrade = {
+    trade_id: `trade_${now}_${Math.random().toString(36).slice(2, 6)}`,
+    game_ref: gameId,
+    kind: "take",
+    from_actor: actorId,
+    from_user: user.user_id,
+    from_card: fromCard,
+    to_card: cardId,
+    status: "accepted",
+    created_at: now,
+    resolved_at: now,
+  };
+  await write(buildShardedPath(nodes.card_trades, gameId), trade.trade_id, trade);
+  await recordGameEvent(gameId, {
+    type: "card_traded",
+    actor_ref: actorId,
+    summary: `${actor.custom_name || actorId} traded ${oldCard?.role_title ?? fromCard} for ${newCard.role_title}`,
+  });
+  return trade;
 }
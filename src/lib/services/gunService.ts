@@ -28,6 +28,12 @@ import type {
   ChatMessage,
   Card,
   Deck,
+  AgreementTemplate,
+  GameSnapshot,
+  ModerationEntry,
+  GameEvent,
+  ResourceLedgerEntry,
+  CardTrade,
   Value,
   Capability,
   NodePosition,
@@ -125,7 +131,12 @@ export async function put<
     | Deck
     | Value
     | Capability
-    | NodePosition,
+    | NodePosition
+    | AgreementTemplate
+    | GameSnapshot
+    | ModerationEntry
+    | ResourceLedgerEntry
+    | CardTrade,
 >(soul: string, data: T | null): Promise<GunAck> {
   const g = getGun();
   if (!g) throw new Error("Gun not ready");
@@ -169,7 +180,12 @@ export async function get<
     | Deck
     | Value
     | Capability
-    | NodePosition,
+    | NodePosition
+    | AgreementTemplate
+    | GameSnapshot
+    | ModerationEntry
+    | ResourceLedgerEntry
+    | CardTrade,
 >(soul: string): Promise<T | null> {
   const g = getGun();
   if (!g) throw new Error("Gun not ready");
@@ -206,7 +222,12 @@ export function subscribe<
     | Deck
     | Value
     | Capability
-    | NodePosition,
+    | NodePosition
+    | AgreementTemplate
+    | GameSnapshot
+    | ModerationEntry
+    | ResourceLedgerEntry
+    | CardTrade,
 >(soul: string, cb: (data: T | null) => void): () => void {
   const g = getGun();
   if (!g) return () => {};
@@ -257,6 +278,45 @@ export async function setField<T>(
   });
 }
 
+/**
+ * Write a value under a node key, resolving on the ack or after a short
+ * timeout so offline peers never block the caller. `undefined` is skipped
+ * because Gun rejects it; write `null` to tombstone a key.
+ * @param soul - Node path (e.g., 'games/g_456')
+ * @param key - Field or child key (e.g., 'status')
+ * @param data - Value or nested object to merge in
+ */
+export async function write<T>(
+  soul: string,
+  key: string,
+  data: T,
+): Promise<void> {
+  const g = getGun();
+  if (!g) throw new Error("Gun not ready");
+  if (data === undefined) {
+    console.warn(`[gunService] Skipping write for undefined data at ${soul}/${key}`);
+    return;
+  }
+
+  await new Promise<void>((resolve) => {
+    let done = false;
+    g.get(soul)
+      .get(key)
+      .put(data, (ack: { err?: string }) => {
+        if (done) return;
+        done = true;
+        if (ack?.err) console.error(`[gunService] Error writing ${soul}/${key}:`, ack.err);
+        resolve();
+      });
+    setTimeout(() => {
+      if (!done) {
+        done = true;
+        resolve();
+      }
+    }, 500);
+  });
+}
+
 /**
  * Get a specific field from a Gun node
  * @param soul - Node path (e.g., 'games/g_456')
@@ -281,6 +341,71 @@ export async function getField<T>(
   });
 }
 
+/**
+ * Write a field in the signed-in user's own graph (`~<pub>/<field>/<key>`).
+ * The write is SEA-signed, so only that user can change it; any peer that
+ * knows the path can still read it.
+ * @param field - Top-level field in the user graph (e.g., 'game_access')
+ * @param key - Child key (e.g., 'g_456')
+ * @param value - Value to store, or null to clear it
+ */
+export async function putUserField<T>(
+  field: string,
+  key: string,
+  value: T | null,
+): Promise<void> {
+  const user = getUser();
+  if (!user || !user._.sea?.pub) {
+    throw new Error("User not authenticated");
+  }
+
+  await new Promise<void>((resolve) => {
+    let done = false;
+    user
+      .get(field)
+      .get(key)
+      .put(value, (ack: { err?: string }) => {
+        if (done) return;
+        done = true;
+        if (ack?.err) console.error(`[gunService] Error writing ~/${field}/${key}:`, ack.err);
+        resolve();
+      });
+    setTimeout(() => {
+      if (!done) {
+        done = true;
+        resolve();
+      }
+    }, 1000);
+  });
+}
+
+/**
+ * Read a field from a user's graph (`~<pub>/<field>/<key>`)
+ * @param pub - SEA public key of the user (their user_id)
+ * @param field - Top-level field in the user graph (e.g., 'game_access')
+ * @param key - Child key (e.g., 'g_456')
+ * @returns Promise resolving to the value or null
+ */
+export async function getUserField<T>(
+  pub: string,
+  field: string,
+  key: string,
+): Promise<T | null> {
+  const g = getGun();
+  if (!g) throw new Error("Gun not ready");
+
+  return new Promise((resolve) => {
+    const timeout = setTimeout(() => resolve(null), 1000);
+    g.user(pub)
+      .get(field)
+      .get(key)
+      .once((data: T | undefined) => {
+        clearTimeout(timeout);
+        resolve(data ?? null);
+      });
+  });
+}
+
 /**
  * Get a collection of nodes from a Gun path
  * @param soul - Collection path (e.g., 'games')
@@ -298,7 +423,12 @@ export async function getCollection<
     | Deck
     | Value
     | Capability
-    | NodePosition,
+    | NodePosition
+    | AgreementTemplate
+    | GameSnapshot
+    | ModerationEntry
+    | ResourceLedgerEntry
+    | CardTrade,
 >(soul: string): Promise<T[]> {
   const g = getGun();
   if (!g) throw new Error("Gun not ready");
@@ -356,7 +486,7 @@ export async function getSet(
  * @param shardKey - Shard identifier (e.g., 'day_20250421')
  * @returns Promise resolving to array of typed data
  */
-export async function getShardedCollection<T extends ChatMessage>(
+export async function getShardedCollection<T extends ChatMessage | GameEvent>(
   baseSoul: string,
   shardKey: string,
 ): Promise<T[]> {
@@ -413,7 +543,12 @@ export async function putSigned<
     | Deck
     | Value
     | Capability
-    | NodePosition,
+    | NodePosition
+    | AgreementTemplate
+    | GameSnapshot
+    | ModerationEntry
+    | ResourceLedgerEntry
+    | CardTrade,
 >(soul: string, data: T | null): Promise<GunAck> {
   // Ensure the user is authenticated
   const user = getUser();
@@ -554,9 +689,15 @@ export const nodes = {
   values: "values",
   capabilities: "capabilities",
   agreements: "agreements",
+  agreement_templates: "agreement_templates",
   chat_rooms: "chat_rooms",
   chat_messages: "chat_messages", // Base path, append /<game_id>/<message_id>
   node_positions: "node_positions", // Base path, append /<game_id>/<node_id>
+  game_snapshots: "game_snapshots", // Base path, append /<game_id>/<snapshot_id>
+  moderation_log: "moderation_log", // Base path, append /<game_id>/<entry_id>
+  game_events: "game_events", // Base path, append /<game_id>/<day_YYYYMMDD>/<event_id>
+  resource_ledger: "resource_ledger", // Base path, append /<game_id>/<entry_id>
+  card_trades: "card_trades", // Base path, append /<game_id>/<trade_id>
 };
 
 /**
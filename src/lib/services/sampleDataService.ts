@@ -575,6 +575,7 @@ export async function initializeSampleData() {
       cards_by_game: { g_456: "card_1" },
       actor_type: "National Identity",
       custom_name: "Alice's Luminos Funder",
+      legal_entity: "Luminos Foundation Ltd",
       status: "active",
       agreements_ref: { ag_1: true, ag_5: true },
       created_at: now,
@@ -587,6 +588,7 @@ export async function initializeSampleData() {
       cards_by_game: { g_456: "card_2" },
       actor_type: "National Identity",
       custom_name: "Bob's Green Veil DAO",
+      legal_entity: "Green Veil Association",
       status: "active",
       agreements_ref: { ag_1: true, ag_2: true },
       created_at: now,
@@ -0,0 +1,121 @@
+import { getCollection, getField, getRefMap, nodes, write } from "./gunService";
+import { getCurrentUser } from "./authService";
+import type { AgreementTemplate, TemplateRoleSlot } from "$lib/types";
+import {
+  DEFAULT_AGREEMENT_TEMPLATES,
+  type AgreementTemplateDraft,
+} from "$lib/utils/agreementTemplates";
+
+// helper: template management is reserved for admins
+function requireAdmin() {
+  const user = getCurrentUser();
+  if (!user) throw new Error("You must be logged in to manage agreement templates");
+  if (user.role !== "Admin") {
+    throw new Error("Only admins can manage agreement templates");
+  }
+  return user;
+}
+
+// helper: read the nested role slots of a template
+async function readRoles(
+  templateId: string,
+): Promise<Record<string, TemplateRoleSlot>> {
+  const base = `${nodes.agreement_templates}/${templateId}`;
+  const slots = Object.keys(await getRefMap(base, "roles"));
+  const entries = await Promise.all(
+    slots.map(async (slot) => {
+      const role = await getField<TemplateRoleSlot>(`${base}/roles`, slot);
+      return role?.slot ? ([slot, role] as const) : null;
+    }),
+  );
+  return Object.fromEntries(entries.filter((e) => e !== null));
+}
+
+/**
+ * Load every stored agreement template, sorted by name.
+ */
+export async function getAgreementTemplates(): Promise<AgreementTemplate[]> {
+  const raw = await getCollection<AgreementTemplate>(nodes.agreement_templates);
+  const templates = await Promise.all(
+    raw
+      .filter((t) => t && t.template_id && t.name)
+      .map(async (t) => ({ ...t, roles: await readRoles(t.template_id) })),
+  );
+  return templates.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Create or update an agreement template (admins only).
+ * Role slots removed from the draft are deleted from the stored template.
+ */
+export async function saveAgreementTemplate(
+  draft: AgreementTemplateDraft,
+  templateId?: string,
+): Promise<AgreementTemplate> {
+  const user = requireAdmin();
+
+  if (!draft.name.trim()) throw new Error("Templates need a name");
+  if (Object.keys(draft.roles).length < 2) {
+    throw new Error("Templates need at least two role slots");
+  }
+
+  const id =
+    templateId ??
+    `tpl_${draft.name.toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_|_$/g, "")}_${Date.now().toString(36)}`;
+  const base = `${nodes.agreement_templates}/${id}`;
+  const now = Date.now();
+  const existing = templateId
+    ? await getField<AgreementTemplate>(nodes.agreement_templates, templateId)
+    : null;
+
+  const template: AgreementTemplate = {
+    ...draft,
+    template_id: id,
+    creator_ref: existing?.creator_ref ?? user.user_id,
+    created_at: existing?.created_at ?? now,
+    updated_at: now,
+  };
+
+  // 1️⃣ Tombstone slots that no longer exist
+  if (existing) {
+    const stale = Object.keys(await getRefMap(base, "roles")).filter(
+      (slot) => !(slot in draft.roles),
+    );
+    await Promise.all(stale.map((slot) => write(`${base}/roles`, slot, null)));
+  }
+
+  // 2️⃣ Write the template node (roles become a nested map)
+  await write(nodes.agreement_templates, id, template);
+
+  console.log(`[templateService] Saved template ${id}`);
+  return template;
+}
+
+/**
+ * Delete an agreement template (admins only).
+ */
+export async function deleteAgreementTemplate(templateId: string): Promise<boolean> {
+  requireAdmin();
+  await write(`${nodes.agreement_templates}/${templateId}`, "roles", null);
+  await write(nodes.agreement_templates, templateId, null);
+  console.log(`[templateService] Deleted template ${templateId}`);
+  return true;
+}
+
+/**
+ * Store any of the built-in templates that are not in the database yet.
+ * Returns how many were added.
+ */
+export async function seedDefaultAgreementTemplates(): Promise<number> {
+  requireAdmin();
+  const existing = new Set(
+    (await getAgreementTemplates()).map((t) => t.template_id),
+  );
+  const missing = Object.entries(DEFAULT_AGREEMENT_TEMPLATES).filter(
+    ([id]) => !existing.has(id),
+  );
+  for (const [id, draft] of missing) {
+    await saveAgreementTemplate(draft, id);
+  }
+  return missing.length;
+}
@@ -31,9 +31,27 @@ export enum AgreementStatus {
     PROPOSED = "proposed",
     ACCEPTED = "accepted", 
     REJECTED = "rejected",
-    COMPLETED = "completed"
+    COMPLETED = "completed",
+    EXPIRED = "expired",
+    DISPUTED = "disputed",
+    NEGOTIATING = "negotiating"
 }
 
+export type AgreementRenewal = "none" | "auto-renew" | "renegotiate";
+
+/** Phases of a game round, in order */
+export type GamePhase = "negotiate" | "vote" | "resolve";
+
+/** Why a game moved to COMPLETED */
+export type GameEndReason = "end_date" | "max_rounds" | "all_cards_placed" | "manual";
+
+export type RatificationRule =
+    | "unanimous"
+    | "majority"
+    | "supermajority"
+    | "creator-plus-one"
+    | "consent";
+
 // Core Schema Types
 // -----------------------------------------------
 
@@ -110,14 +128,41 @@ export interface Game {
     deck_ref: string; // e.g., 'd1'
     deck_type: string; // e.g., 'eco-village'
     role_assignment_type?: "player-choice" | "random";
+    role_assignment_balanced?: boolean; // random mode: spread dealt cards across card_category
+    role_assignment_seed?: string | null; // seed of the last random deal, e.g., 'k3x9q2'
+    roles_assigned_at?: number;
     status: GameStatus; // e.g., 'active'
     created_at: number;
     updated_at?: number;
-    end_date?: number;
+    end_date?: number; // the game completes once this passes
+    max_rounds?: number; // the game completes after this many rounds, e.g., 5
+    end_when_all_cards_placed?: boolean; // complete once every card in play is in an accepted agreement
+    ended_at?: number;
+    end_reason?: GameEndReason; // e.g., 'max_rounds'
+    final_summary?: GameSummary; // snapshot written when the game completes
+    cloned_from?: string; // game this one was cloned from, e.g., 'g_12'
+    agreement_skeletons?: Record<string, AgreementSkeleton>; // agreements carried over by cloneGame, e.g., { sk_1: {...} }
     max_players?: number;
-    password?: string;
+    password?: string | null; // legacy plaintext; moved to the setter's user graph on the next save or join
+    password_hash?: string | null; // legacy, e.g., 'pbkdf2$100000$<salt>$<hash>'; now kept at ~<password_ref>/game_access/<game_id>
+    password_protected?: boolean; // true while joining needs a password
+    password_ref?: string | null; // user_id (SEA pub) whose graph holds the hash
+    ratification_rule?: RatificationRule; // e.g., 'majority' (defaults to 'unanimous')
+    ratification_threshold?: number; // supermajority share of parties, e.g., 0.67
+    consent_deadline_hours?: number; // consent: hours until silence counts as acceptance, e.g., 48
+    mediator_actor?: string | null; // actor appointed to resolve disputes (the creator always can)
+    current_round?: number; // e.g., 3 (unset until the facilitator starts round 1)
+    round_phase?: GamePhase; // e.g., 'vote'
+    phase_started_at?: number;
+    phase_ends_at?: number | null; // timer for the current phase; null = untimed
+    phase_minutes?: number | null; // default length of each phase, e.g., 10
+    rounds?: Record<string, GameRound>; // e.g., { round_1: {...}, round_2: {...} }
+    events_ref?: Record<string, boolean>; // day shards of the activity feed, e.g., { day_20250421: true }
     players: Record<string, boolean>; // e.g., { u_838: true }
-    player_actor_map: Record<string, string | null>; // e.g., { u_838: 'actor_1' }
+    observers?: Record<string, boolean>; // users watching without a seat, e.g., { u_901: true }
+    observer_invite_code?: string | null; // code in the facilitator's observer link; null = revoked
+    player_actor_map: Record<string, string | null>; // actor each user is acting as, e.g., { u_838: 'actor_1' }
+    player_actors?: Record<string, Record<string, boolean>>; // every actor each user controls, e.g., { u_838: { actor_1: true, actor_4: true } }
     actors_ref: Record<string, boolean>; // e.g., { actor_1: true }
     agreements_ref: Record<string, boolean>; // e.g., { ag_1: true }
     chat_rooms_ref: Record<string, boolean>; // e.g., { chat_g_456: true }
@@ -126,13 +171,52 @@ export interface Game {
     ref_set?: Record<string, string>;
 }
 
+export interface GameSummaryActor {
+    name: string; // custom name, card role title or actor_id
+    card_ref?: string | null; // e.g., 'card_1'
+    agreements: number; // agreements the actor is a party to
+    accepted: number; // of those, accepted (still in force)
+    completed: number; // of those, completed
+}
+
+/** Final standings frozen onto a game when it completes */
+export interface GameSummary {
+    reason: GameEndReason;
+    ended_at: number;
+    rounds_played: number;
+    players: number;
+    total_agreements: number;
+    agreements_by_status: Record<string, number>; // e.g., { accepted: 3, rejected: 1 }
+    cards_in_play: number;
+    cards_placed: number; // cards in at least one accepted or completed agreement
+    actors: Record<string, GameSummaryActor>; // keyed by actor_id
+}
+
+/** An agreement from a cloned game, keyed by card so any player holding it can replay it */
+export interface AgreementSkeleton {
+    skeleton_id: string; // e.g., 'sk_1'
+    title: string;
+    summary?: string;
+    type: "symmetric" | "asymmetric";
+    source_agreement?: string; // e.g., 'ag_12345' in the source game
+    parties: Record<string, { obligation: string; benefit: string }>; // keyed by card_ref
+}
+
+export interface GameRound {
+    round: number; // e.g., 2
+    started_at: number;
+    ended_at?: number;
+}
+
 export interface Actor {
     actor_id: string; // e.g., 'actor_1'
     user_ref: string | null; // e.g., 'u_838' or null if unassigned
     games_ref: Record<string, boolean>; // Games this Actor has joined, e.g., { g_456: true, g_789: true }
+    game_history?: Record<string, boolean>; // Every game it has played, kept when it leaves; feeds reputation
     cards_by_game: Record<string, string | null>; // Card assignment per Game, e.g., { g_456: 'card_1', g_789: 'card_4' }
     actor_type: "National Identity" | "Sovereign Identity";
     custom_name?: string; // e.g., 'Jobu'
+    legal_entity?: string; // e.g., 'Luminos Foundation Ltd' — required for National Identity actors
     status: "active" | "inactive";
     agreements_ref: Record<string, boolean>; // e.g., { ag_1: true }
     created_at: number;
@@ -147,6 +231,17 @@ export interface ActorWithCard extends Actor {
     position?: { x: number; y: number };
 }
 
+/** An actor's track record across every game it has played (computed on read) */
+export interface ActorProfile {
+    actor_id: string; // e.g., 'actor_1'
+    games_played: number; // e.g., 3
+    agreements_made: number; // ratified agreements it was a party to
+    agreements_fulfilled: number; // completed, or every obligation it owed checked off as done
+    agreements_breached: number; // at least one obligation it owed marked breached
+    disputes_lost: number; // upheld against an obligation it owed, or dismissed after it opened one
+    reputation: number; // 0–100, 50 with no track record
+}
+
 export interface ChatRoom {
     chat_id: string; // e.g., 'chat_g_456' or 'chat_private_u_838_u_123'
     game_ref?: string; // e.g., 'g_456' (required for group chats)
@@ -177,26 +272,143 @@ export interface ChatMessage {
     content: string; // e.g., 'Let’s discuss the garden agreement'
     type: "group" | "private";
     recipient_ref?: string; // e.g., 'u_123'
+    agreement_ref?: string; // e.g., 'ag_1' — negotiation message about this agreement
+    draft_ref?: string; // e.g., 'draft_2' — the draft being discussed
+    announcement?: boolean; // facilitator broadcast to the whole game
     read_by_ref: Record<string, boolean>; // e.g., { u_838: true }
     created_at: number;
 }
 
+export type AgreementVote = "accept" | "reject" | "pending";
+
 export interface Agreement {
     agreement_id: string; // e.g., 'ag_1'
     game_ref: string; // e.g., 'g_456'
     creator_ref: string; // e.g., 'u_838'
+    creator_actor_ref?: string; // e.g., 'actor_1' (the party the creator proposed as)
     title: string; // e.g., 'Funding for Garden Initiative'
     summary?: string; // e.g., 'Luminos Funder provides capital...'
     type: "symmetric" | "asymmetric";
     status: AgreementStatus; // e.g., 'proposed'
     parties: Record<
         string,
-        { card_ref: string; obligation: string; benefit: string }
+        { card_ref: string; obligation: string; benefit: string; legal_entity?: string; jurisdiction?: string }
     >; // e.g., { actor_1: { card_ref: 'card_1', obligation: 'Create garden...', benefit: 'Receives funding...' } }
+    // legal_entity: signed for a National party; jurisdiction: clause only a Sovereign party may add
     cards_ref: Record<string, boolean>; // e.g., { card_1: true }
     created_at: number;
     updated_at?: number;
-    votes?: Record<string, "accept" | "reject" | "pending">; // e.g., { actor_1: 'accept' }
+    votes?: Record<string, AgreementVote>; // e.g., { actor_1: 'accept' }
+    ratification_rule?: RatificationRule; // copied from the Game when proposed
+    ratification_threshold?: number; // e.g., 0.67
+    vote_deadline?: number; // consent rule: pending votes count as accept after this
+    current_revision?: number; // e.g., 2 (0 = original proposal)
+    revisions?: Record<string, AgreementRevision>; // e.g., { rev_0: {...}, rev_1: {...} }
+    starts_at?: number; // e.g., 1745193600000
+    expires_at?: number; // evaluated on game context load
+    renewal?: AgreementRenewal; // what happens at expires_at (default 'none')
+    proposed_round?: number; // game round the agreement was proposed in, e.g., 2
+    ratified_round?: number; // game round it was accepted in, e.g., 3
+    active_dispute?: string | null; // e.g., 'dsp_1' while DISPUTED
+    disputes?: Record<string, AgreementDispute>; // e.g., { dsp_1: {...} }
+    current_draft?: string | null; // e.g., 'draft_3' while NEGOTIATING
+    drafts?: Record<string, AgreementDraft>; // e.g., { draft_1: {...} }
+    dependencies?: Record<string, AgreementDependency>; // keyed by the related agreement_id
+    obligations?: Record<string, ObligationItem>; // e.g., { ob_1: { fromActorId: 'actor_1', text: 'Plant trees', state: 'open' } }
+    benefits?: Record<string, BenefitItem>; // e.g., { bn_1: { fromActorId: 'actor_2', text: 'Receives produce' } }
+}
+
+export interface AgreementTermsChange {
+    obligation_from?: string;
+    obligation_to?: string;
+    benefit_from?: string;
+    benefit_to?: string;
+}
+
+export interface AgreementRevision {
+    revision_id: string; // e.g., 'rev_1'
+    number: number; // e.g., 1 (0 = original proposal)
+    proposed_by: string; // e.g., 'u_838'
+    proposed_by_actor?: string; // e.g., 'actor_1'
+    title: string;
+    summary?: string;
+    changes: Record<string, AgreementTermsChange>; // keyed by actor_id
+    created_at: number;
+    /** Full party terms after this revision (resolved on read) */
+    terms?: Record<string, { obligation: string; benefit: string }>;
+}
+
+export interface DisputeResponse {
+    actor_id: string; // e.g., 'actor_2'
+    statement: string;
+    created_at: number;
+}
+
+export interface DisputeResolution {
+    outcome: "upheld" | "dismissed";
+    note: string;
+    resulting_status: AgreementStatus; // status the agreement returns to
+    resolved_by: string; // user_id of the mediator
+    resolved_by_actor?: string; // mediator's actor, when appointed
+    created_at: number;
+}
+
+export interface AgreementDispute {
+    dispute_id: string; // e.g., 'dsp_1'
+    opened_by: string; // user_id
+    opened_by_actor: string; // e.g., 'actor_1'
+    statement: string;
+    obligation_ref?: string; // e.g., 'ob_actor_2_0' — the obligation claimed as breached
+    status: "open" | "resolved";
+    prior_status: AgreementStatus; // status before the dispute was opened
+    responses?: Record<string, DisputeResponse>; // keyed by actor_id
+    resolution?: DisputeResolution;
+    created_at: number;
+}
+
+export type AgreementDependencyKind = "prerequisite" | "exclusive" | "supersedes";
+
+export interface AgreementDependency {
+    agreement_ref: string; // e.g., 'ag_2' — the related agreement
+    kind: AgreementDependencyKind;
+    direction: "outgoing" | "incoming"; // outgoing: this agreement requires/supersedes the other
+    created_by: string; // user_id
+    created_at: number;
+}
+
+export interface AgreementDraft {
+    draft_id: string; // e.g., 'draft_2'
+    number: number; // e.g., 2 (1 = opening draft)
+    proposed_by: string; // user_id
+    proposed_by_actor?: string; // e.g., 'actor_1'
+    title: string;
+    summary?: string;
+    terms: Record<string, { obligation: string; benefit: string }>; // keyed by actor_id
+    note?: string; // e.g., 'Can we halve the first tranche?'
+    status: "current" | "superseded" | "final";
+    supersedes?: string; // e.g., 'draft_1'
+    created_at: number;
+}
+
+export interface TemplateRoleSlot {
+    slot: string; // e.g., 'funder' — also the placeholder name, {funder}
+    label: string; // e.g., 'Funder'
+    match_by: "card_category" | "type"; // which card field picks eligible actors
+    match_value?: string; // e.g., 'Funders' (any card when empty)
+    obligation: string; // default text, may use placeholders, e.g., 'Fund {grantee}'
+    benefit: string;
+}
+
+export interface AgreementTemplate {
+    template_id: string; // e.g., 'tpl_funding'
+    name: string; // e.g., 'Funding for deliverables'
+    title_pattern: string; // e.g., '{funder} funds {grantee}'
+    summary: string;
+    type: "symmetric" | "asymmetric";
+    roles: Record<string, TemplateRoleSlot>; // keyed by slot
+    creator_ref: string; // e.g., 'u_838'
+    created_at: number;
+    updated_at?: number;
 }
 
 export interface AgreementWithPosition extends Agreement {
@@ -205,8 +417,8 @@ export interface AgreementWithPosition extends Agreement {
 
     /** for your D3 code */
     partyItems?: PartyItem[];
-    obligations?: ObligationItem[];
-    benefits?: BenefitItem[];
+    obligationItems?: ObligationItem[];
+    benefitItems?: BenefitItem[];
 }
 
 export interface NodePosition {
@@ -218,6 +430,124 @@ export interface NodePosition {
     updated_at: number;
 }
 
+/** A game's state as captured by a snapshot (see `captureGameSnapshot`) */
+export interface GameSnapshotState {
+    version: 1;
+    game: Partial<Game>; // primitive fields plus players, player_actor_map, player_actors, actors_ref, agreements_ref
+    actor_cards: Record<string, string | null>; // actor_id → card in this game
+    agreements: Record<string, Agreement>; // root fields, parties, cards_ref, votes, obligations, benefits, dependencies
+    positions: Record<string, NodePosition>; // keyed by node_id
+}
+
+export interface GameSnapshot {
+    snapshot_id: string; // e.g., 'snap_1745193600000_k3x9'
+    game_ref: string; // e.g., 'g_456'
+    name: string; // e.g., 'Before round 3'
+    created_by: string; // user_id
+    created_at: number;
+    agreement_count: number;
+    state: string; // GameSnapshotState as JSON, so nested maps survive exactly as captured
+}
+
+export type ResourceKind = "money" | "land" | "labour_hours" | "custom";
+
+/** A typed quantity, e.g. { resource_id: 'money', kind: 'money', unit: '$', amount: 50000 } */
+export interface ResourceQuantity {
+    resource_id: string; // the kind for built-ins, 'custom_<unit>' otherwise, e.g., 'custom_tractors'
+    kind: ResourceKind;
+    unit: string; // e.g., '$', 'acres', 'hours', 'tractors'
+    amount: number;
+}
+
+/** One line of a game's resource ledger; balances are the sum of these */
+export interface ResourceLedgerEntry extends ResourceQuantity {
+    entry_id: string; // e.g., 'seed_actor_1_money', 'tx_1745193600000_k3x9' or 'close_actor_1_money_1745193600000'
+    game_ref: string; // e.g., 'g_456'
+    entry_type: "seed" | "transfer" | "closeout"; // closeout: cancels an actor's transfer net when its card changes
+    to_actor: string; // actor credited, e.g., 'actor_2'
+    from_actor?: string; // actor debited (transfers only)
+    agreement_ref?: string; // accepted agreement the transfer settles, e.g., 'ag_3'
+    note?: string;
+    created_by: string; // user_id
+    created_at: number;
+}
+
+export type CardTradeStatus = "pending" | "accepted" | "declined" | "cancelled";
+
+/** A role trade in a game: swap cards with another player's actor, or take an unused deck card */
+export interface CardTrade {
+    trade_id: string; // e.g., 'trade_1745193600000_k3x9'
+    game_ref: string; // e.g., 'g_456'
+    kind: "swap" | "take";
+    from_actor: string; // actor making the offer, e.g., 'actor_1'
+    from_user: string; // user_id of its player
+    from_card: string; // card the offering actor gives up, e.g., 'card_1'
+    to_actor?: string; // swap: actor asked to trade, e.g., 'actor_2'
+    to_user?: string; // swap: user_id who must consent
+    to_card: string; // card the offering actor receives, e.g., 'card_2'
+    status: CardTradeStatus; // 'take' trades are accepted at once
+    created_at: number;
+    resolved_at?: number;
+}
+
+export type GameEventType =
+    | "player_joined"
+    | "player_left"
+    | "observer_joined"
+    | "actor_created"
+    | "actor_chosen"
+    | "roles_assigned"
+    | "actor_reassigned"
+    | "agreement_proposed"
+    | "agreement_status"
+    | "agreement_deleted"
+    | "vote_cast"
+    | "resource_transfer"
+    | "card_traded"
+    | "status_changed"
+    | "round_advanced";
+
+/** One entry in a game's activity feed, stored under game_events/<game_id>/<day_YYYYMMDD>/<event_id> */
+export interface GameEvent {
+    event_id: string; // e.g., 'ev_1745193600000_k3x9'
+    game_ref: string; // e.g., 'g_456'
+    type: GameEventType;
+    user_ref?: string; // user who caused it, e.g., 'u_838'
+    actor_ref?: string; // actor involved, e.g., 'actor_1'
+    target_ref?: string; // agreement or user acted on, e.g., 'ag_3'
+    summary: string; // e.g., 'proposed "Shared garden"'
+    created_at: number;
+}
+
+export type ModerationAction =
+    | "pause"
+    | "resume"
+    | "kick_player"
+    | "reassign_actor"
+    | "force_accept"
+    | "veto"
+    | "announcement";
+
+/** One facilitator action, stored under moderation_log/<game_id>/<entry_id> */
+export interface ModerationEntry {
+    entry_id: string; // e.g., 'mod_1745193600000_k3x9'
+    game_ref: string; // e.g., 'g_456'
+    action: ModerationAction;
+    moderator_ref: string; // user_id of the creator or Admin who acted
+    target_ref?: string; // user, actor or agreement acted on, e.g., 'ag_3'
+    reason?: string; // e.g., 'Parties agreed verbally before the timer ran out'
+    details?: string; // e.g., 'actor_3: u_12 → u_45'
+    created_at: number;
+}
+
+/** Outcome of a random role deal (see `assignRandomRoles`) */
+export interface RoleAssignment {
+    seed: string; // replaying the seed on the same players and cards gives the same deal
+    balanced: boolean;
+    deal: Record<string, { actor_ref: string; card_ref: string }>; // keyed by user_id
+    unassigned: string[]; // players left without a card when the deck ran out
+}
+
 export interface Pager<T> {
     items: Record<string, T>;
     nextCursor?: string;
@@ -251,22 +581,38 @@ export interface CardWithPosition extends Card {
     /** your existing fields… */
     position?: { x: number; y: number };
     actor_id?: string;
+    actor_type?: Actor["actor_type"]; // type of the holding actor, on board nodes
+    legal_entity?: string; // legal entity of the holding actor, on board nodes
     _valueNames?: string[];
     _capabilityNames?: string[];
 }
 
+export type FulfilmentState = "open" | "done" | "breached";
+
 export interface ObligationItem {
-    id: string;
-    fromActorId: string;
-    toActorId?: string;
+    id: string; // e.g., 'ob_1'
+    fromActorId: string; // actor who owes the obligation
+    toActorId?: string; // counterparty it is owed to (all other parties when unset)
     text: string;
+    due_date?: number; // e.g., 1745193600000
+    state?: FulfilmentState; // defaults to 'open'
+    checked_by?: string; // actor_id of the counterparty who marked it done/breached
+    checked_at?: number;
 }
 
 export interface BenefitItem {
-    id: string;
-    fromActorId: string;
+    id: string; // e.g., 'bn_1'
+    fromActorId: string; // actor who receives the benefit
     toActorId?: string;
     text: string;
+    due_date?: number;
+    state?: FulfilmentState;
+}
+
+/** One obligation or benefit as entered when proposing an agreement */
+export interface TermDraft {
+    text: string;
+    due_date?: number;
 }
 
 export interface PartyItem {
@@ -274,6 +620,8 @@ export interface PartyItem {
     card: CardWithPosition;
     obligation: string;
     benefit: string;
+    legal_entity?: string;
+    jurisdiction?: string;
 }
 
 export interface SubItem {
@@ -308,7 +656,8 @@ export interface D3Node extends SimulationNodeDatum {
 export interface D3Link {
     source: D3Node | string;
     target: D3Node | string;
-    type?: "obligation" | "benefit" | "subnode";
+    type?: "obligation" | "benefit" | "shared" | "subnode" | "dependency"; // 'shared' = undirected spoke of a symmetric agreement; 'dependency' = agreement → agreement relation
+    dependency?: AgreementDependencyKind; // set on 'dependency' links
     id?: string;
     angle?: number; // Angle for multi-party agreement links
 }
@@ -0,0 +1,106 @@
+import type { Actor, Card } from '$lib/types';
+
+export type ActorType = Actor['actor_type'];
+
+export const ACTOR_TYPES: ActorType[] = ['National Identity', 'Sovereign Identity'];
+
+export interface ActorTypeRules {
+  /** Short name for badges */
+  label: string;
+  /** Must name the legal entity it acts through before joining or signing */
+  requiresLegalEntity: boolean;
+  /** May add its own jurisdiction clause to the agreements it signs */
+  mayDeclareJurisdiction: boolean;
+}
+
+export const ACTOR_TYPE_RULES: Record<ActorType, ActorTypeRules> = {
+  'National Identity': {
+    label: 'National',
+    requiresLegalEntity: true,
+    mayDeclareJurisdiction: false
+  },
+  'Sovereign Identity': {
+    label: 'Sovereign',
+    requiresLegalEntity: false,
+    mayDeclareJurisdiction: true
+  }
+};
+
+/** Card types (`Card.type`) that only one kind of actor may hold */
+export const CARD_TYPE_HOLDERS: Partial<Record<string, ActorType>> = {
+  PMA: 'Sovereign Identity'
+};
+
+export const ACTOR_TYPE_BADGE_CLASSES: Record<ActorType, string> = {
+  'National Identity': 'preset-tonal-secondary',
+  'Sovereign Identity': 'preset-tonal-warning'
+};
+
+export type ActorRuleErrorCode = 'legal_entity_required' | 'card_restricted' | 'jurisdiction_not_allowed';
+
+/**
+ * Raised when an actor breaks a rule of its `actor_type`. `message` is ready
+ * to show as-is.
+ */
+export class ActorRuleError extends Error {
+  readonly code: ActorRuleErrorCode;
+
+  constructor(code: ActorRuleErrorCode, message: string) {
+    super(message);
+    this.name = 'ActorRuleError';
+    this.code = code;
+  }
+}
+
+export function isActorRuleError(error: unknown): error is ActorRuleError {
+  return error instanceof ActorRuleError;
+}
+
+/** Rules of a type; unknown or missing types are treated as national */
+export function rulesFor(actorType: string | null | undefined): ActorTypeRules {
+  return ACTOR_TYPE_RULES[actorType as ActorType] ?? ACTOR_TYPE_RULES['National Identity'];
+}
+
+export function actorTypeLabel(actorType: string | null | undefined): string {
+  return rulesFor(actorType).label;
+}
+
+/** The type a new actor needs to hold this card (national unless restricted) */
+export function actorTypeForCard(card: Pick<Card, 'type'>): ActorType {
+  return CARD_TYPE_HOLDERS[card.type] ?? 'National Identity';
+}
+
+/** Throw unless an actor of this type may hold the card */
+export function assertCanHoldCard(actorType: ActorType, card: Pick<Card, 'type' | 'role_title'>): void {
+  const holder = CARD_TYPE_HOLDERS[card.type];
+  if (holder && holder !== actorType) {
+    throw new ActorRuleError(
+      'card_restricted',
+      `${card.role_title} is a ${card.type} card and can only be held by a ${rulesFor(holder).label} actor`
+    );
+  }
+}
+
+/** Throw when a national actor has not named its legal entity */
+export function assertLegalEntity(actor: Pick<Actor, 'actor_type' | 'legal_entity'>, name: string): void {
+  if (rulesFor(actor.actor_type).requiresLegalEntity && !actor.legal_entity?.trim()) {
+    throw new ActorRuleError(
+      'legal_entity_required',
+      `${name} is a ${actorTypeLabel(actor.actor_type)} actor and must name its legal entity`
+    );
+  }
+}
+
+/** Throw when an actor whose type may not declare one adds a jurisdiction clause */
+export function assertJurisdictionAllowed(
+  actor: Pick<Actor, 'actor_type'>,
+  jurisdiction: string | undefined,
+  name: string
+): void {
+  if (jurisdiction?.trim() && !rulesFor(actor.actor_type).mayDeclareJurisdiction) {
+    throw new ActorRuleError(
+      'jurisdiction_not_allowed',
+      `${name} is a ${actorTypeLabel(actor.actor_type)} actor and cannot add a jurisdiction clause`
+    );
+  }
+}
@@ -0,0 +1,98 @@
+import type { Agreement, AgreementDependency, AgreementDependencyKind } from '$lib/types';
+import { AgreementStatus } from '$lib/types';
+
+/** How each relation reads from the agreement it is stored on */
+export const DEPENDENCY_LABELS: Record<AgreementDependencyKind, { outgoing: string; incoming: string }> = {
+  prerequisite: { outgoing: 'Requires', incoming: 'Required by' },
+  exclusive: { outgoing: 'Excludes', incoming: 'Excludes' },
+  supersedes: { outgoing: 'Supersedes', incoming: 'Superseded by' }
+};
+
+/** Statuses in which an agreement counts as in force */
+function isInForce(status: AgreementStatus): boolean {
+  return status === AgreementStatus.ACCEPTED || status === AgreementStatus.COMPLETED;
+}
+
+/**
+ * Why an agreement may not become ACCEPTED given its relations, or null when
+ * nothing stands in the way:
+ * - a prerequisite it requires is not accepted (or completed) yet
+ * - an agreement it is exclusive with is already in force
+ * - an agreement that supersedes it is already in force
+ */
+export function dependencyBlock(
+  relations: { dependency: AgreementDependency; other: Agreement }[]
+): string | null {
+  for (const { dependency, other } of relations) {
+    const name = `"${other.title}"`;
+    switch (dependency.kind) {
+      case 'prerequisite':
+        if (dependency.direction === 'outgoing' && !isInForce(other.status)) {
+          return `${name} must be accepted first (it is ${other.status})`;
+        }
+        break;
+      case 'exclusive':
+        if (isInForce(other.status)) {
+          return `It is mutually exclusive with ${name}, which is already ${other.status}`;
+        }
+        break;
+      case 'supersedes':
+        if (dependency.direction === 'incoming' && isInForce(other.status)) {
+          return `It has been superseded by ${name}`;
+        }
+        break;
+    }
+  }
+  return null;
+}
+
+/**
+ * What happens to related agreements once `agreement` is accepted:
+ * agreements it supersedes end as EXPIRED, pending agreements it excludes are
+ * REJECTED, and agreements waiting on it as a prerequisite are re-evaluated.
+ */
+export function dependencyEffects(
+  relations: { dependency: AgreementDependency; other: Agreement }[]
+): { expire: string[]; reject: string[]; reevaluate: string[] } {
+  const pending = (s: AgreementStatus) =>
+    s === AgreementStatus.PROPOSED || s === AgreementStatus.NEGOTIATING;
+  const effects = { expire: [] as string[], reject: [] as string[], reevaluate: [] as string[] };
+
+  for (const { dependency, other } of relations) {
+    const id = other.agreement_id;
+    if (dependency.kind === 'supersedes' && dependency.direction === 'outgoing') {
+      if (isInForce(other.status) || pending(other.status)) effects.expire.push(id);
+    } else if (dependency.kind === 'exclusive' && pending(other.status)) {
+      effects.reject.push(id);
+    } else if (
+      dependency.kind === 'prerequisite' &&
+      dependency.direction === 'incoming' &&
+      other.status === AgreementStatus.PROPOSED
+    ) {
+      effects.reevaluate.push(id);
+    }
+  }
+  return effects;
+}
+
+/**
+ * True when adding `from → to` (a directed prerequisite or supersedes edge)
+ * would close a loop. `edges` maps each agreement to the agreements it
+ * already points at with the same kind of relation.
+ */
+export function wouldCreateCycle(
+  from: string,
+  to: string,
+  edges: Record<string, string[]>
+): boolean {
+  const seen = new Set<string>();
+  const stack = [to];
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (id === from) return true;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    stack.push(...(edges[id] ?? []));
+  }
+  return false;
+}
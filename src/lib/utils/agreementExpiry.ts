@@ -0,0 +1,78 @@
+import type { Agreement, AgreementRenewal } from '$lib/types';
+import { AgreementStatus } from '$lib/types';
+
+/** Accepted agreements count as "expiring soon" inside this window */
+export const EXPIRY_WARNING_MS = 3 * 24 * 60 * 60 * 1000;
+
+export const RENEWAL_LABELS: Record<AgreementRenewal, string> = {
+  none: 'Ends at expiry',
+  'auto-renew': 'Auto-renews for the same term',
+  renegotiate: 'Returns to proposed for renegotiation'
+};
+
+/**
+ * Length of one term: from starts_at (or created_at) until expires_at.
+ */
+export function agreementTermLength(agreement: Pick<Agreement, 'starts_at' | 'created_at' | 'expires_at'>): number {
+  if (!agreement.expires_at) return 0;
+  return Math.max(0, agreement.expires_at - (agreement.starts_at ?? agreement.created_at));
+}
+
+/**
+ * True when an accepted agreement runs out within the warning window.
+ */
+export function isExpiringSoon(agreement: Agreement, now: number = Date.now()): boolean {
+  return (
+    agreement.status === AgreementStatus.ACCEPTED &&
+    !!agreement.expires_at &&
+    agreement.expires_at > now &&
+    agreement.expires_at - now <= EXPIRY_WARNING_MS
+  );
+}
+
+/**
+ * What an agreement looks like once its expiry has been applied, or null when
+ * nothing changes. Only accepted agreements expire:
+ * - none:        moves to EXPIRED (terminal)
+ * - auto-renew:  stays ACCEPTED, rolled forward by whole terms past `now`
+ * - renegotiate: back to PROPOSED with a fresh term starting now
+ */
+export function resolveExpiry(
+  agreement: Agreement,
+  now: number = Date.now()
+): Pick<Agreement, 'status' | 'starts_at' | 'expires_at'> | null {
+  if (agreement.status !== AgreementStatus.ACCEPTED) return null;
+  if (!agreement.expires_at || agreement.expires_at > now) return null;
+
+  const term = agreementTermLength(agreement);
+  switch (agreement.renewal ?? 'none') {
+    case 'auto-renew': {
+      if (term <= 0) return { status: AgreementStatus.EXPIRED };
+      const periods = Math.floor((now - agreement.expires_at) / term) + 1;
+      return {
+        status: AgreementStatus.ACCEPTED,
+        starts_at: agreement.expires_at + (periods - 1) * term,
+        expires_at: agreement.expires_at + periods * term
+      };
+    }
+    case 'renegotiate':
+      return {
+        status: AgreementStatus.PROPOSED,
+        starts_at: now,
+        expires_at: now + term
+      };
+    default:
+      return { status: AgreementStatus.EXPIRED };
+  }
+}
+
+/**
+ * Short human-readable countdown, e.g. "expires in 2 days" or "expired 3 hours ago".
+ */
+export function describeExpiry(expiresAt: number, now: number = Date.now()): string {
+  const diff = expiresAt - now;
+  const abs = Math.abs(diff);
+  const hours = Math.round(abs / (60 * 60 * 1000));
+  const span = hours >= 48 ? `${Math.round(hours / 24)} days` : `${Math.max(hours, 1)} hours`;
+  return diff >= 0 ? `expires in ${span}` : `expired ${span} ago`;
+}
@@ -0,0 +1,168 @@
+import type { ActorWithCard, AgreementTemplate, TemplateRoleSlot } from '$lib/types';
+
+/** Template shape before it is stored (ids and timestamps are added on save) */
+export type AgreementTemplateDraft = Omit<
+  AgreementTemplate,
+  'template_id' | 'creator_ref' | 'created_at' | 'updated_at'
+>;
+
+/**
+ * Starter templates for the deals facilitators write most often.
+ * Placeholders are slot keys in braces, e.g. {funder}.
+ */
+export const DEFAULT_AGREEMENT_TEMPLATES: Record<string, AgreementTemplateDraft> = {
+  tpl_funding: {
+    name: 'Funding for deliverables',
+    title_pattern: '{funder} funds {grantee}',
+    summary: '{funder} provides funding to {grantee} in exchange for agreed deliverables and progress reports.',
+    type: 'asymmetric',
+    roles: {
+      funder: {
+        slot: 'funder',
+        label: 'Funder',
+        match_by: 'card_category',
+        match_value: 'Funders',
+        obligation: 'Release funds to {grantee} in agreed tranches',
+        benefit: 'Receives deliverables and impact reports from {grantee}'
+      },
+      grantee: {
+        slot: 'grantee',
+        label: 'Grantee',
+        match_by: 'card_category',
+        match_value: '',
+        obligation: 'Deliver the funded work; Report progress to {funder}',
+        benefit: 'Receives funding from {funder}'
+      }
+    }
+  },
+  tpl_land_lease: {
+    name: 'Land-use lease',
+    title_pattern: '{landholder} leases land to {tenant}',
+    summary: '{landholder} grants {tenant} the use of land under stewardship conditions.',
+    type: 'asymmetric',
+    roles: {
+      landholder: {
+        slot: 'landholder',
+        label: 'Landholder',
+        match_by: 'card_category',
+        match_value: '',
+        obligation: 'Grant {tenant} access to the land for the lease term',
+        benefit: 'Receives rent or produce share; Land is stewarded'
+      },
+      tenant: {
+        slot: 'tenant',
+        label: 'Tenant',
+        match_by: 'card_category',
+        match_value: '',
+        obligation: 'Pay {landholder} the agreed rent or produce share; Follow stewardship practices',
+        benefit: 'Secure use of the land'
+      }
+    }
+  },
+  tpl_labour_exchange: {
+    name: 'Labour exchange',
+    title_pattern: 'Labour exchange: {party_a} & {party_b}',
+    summary: '{party_a} and {party_b} trade equal hours of work.',
+    type: 'symmetric',
+    roles: {
+      party_a: {
+        slot: 'party_a',
+        label: 'Party A',
+        match_by: 'card_category',
+        match_value: '',
+        obligation: 'Contribute the agreed hours of labour',
+        benefit: 'Receives an equal number of hours in return'
+      },
+      party_b: {
+        slot: 'party_b',
+        label: 'Party B',
+        match_by: 'card_category',
+        match_value: '',
+        obligation: 'Contribute the agreed hours of labour',
+        benefit: 'Receives an equal number of hours in return'
+      }
+    }
+  },
+  tpl_ip_licence: {
+    name: 'IP licensing',
+    title_pattern: '{licensor} licenses IP to {licensee}',
+    summary: '{licensor} licenses intellectual property to {licensee} under agreed terms.',
+    type: 'asymmetric',
+    roles: {
+      licensor: {
+        slot: 'licensor',
+        label: 'Licensor',
+        match_by: 'type',
+        match_value: '',
+        obligation: 'Grant {licensee} a licence to use the IP',
+        benefit: 'Receives royalties and attribution from {licensee}'
+      },
+      licensee: {
+        slot: 'licensee',
+        label: 'Licensee',
+        match_by: 'type',
+        match_value: '',
+        obligation: 'Pay royalties to {licensor}; Credit {licensor} in all uses',
+        benefit: 'Right to use the licensed IP'
+      }
+    }
+  }
+};
+
+/**
+ * Whether an actor's card fits a template role slot.
+ * Slots without a match value accept any card.
+ */
+export function actorMatchesSlot(actor: ActorWithCard, slot: TemplateRoleSlot): boolean {
+  if (!slot.match_value) return true;
+  const field = slot.match_by === 'type' ? actor.card?.type : actor.card?.card_category;
+  return (field ?? '').toLowerCase() === slot.match_value.toLowerCase();
+}
+
+/**
+ * Replace {slot} placeholders with the names of the assigned actors.
+ * Unknown placeholders are left as written.
+ */
+export function fillPlaceholders(text: string, names: Record<string, string>): string {
+  return text.replace(/\{(\w+)\}/g, (match, key: string) => names[key] ?? match);
+}
+
+/**
+ * Turn a template plus a slot → actor assignment into createAgreement input.
+ * Default obligation/benefit text is split on "; " into separate items.
+ */
+export function instantiateTemplate(
+  template: AgreementTemplate | AgreementTemplateDraft,
+  assignments: Record<string, ActorWithCard>,
+  getName: (actor: ActorWithCard) => string
+): {
+  title: string;
+  summary: string;
+  type: AgreementTemplate['type'];
+  parties: string[];
+  terms: Record<string, { obligations: string[]; benefits: string[] }>;
+} {
+  const names = Object.fromEntries(
+    Object.entries(assignments).map(([slot, actor]) => [slot, getName(actor)])
+  );
+  const split = (text: string) =>
+    fillPlaceholders(text, names)
+      .split('; ')
+      .map((t) => t.trim())
+      .filter(Boolean);
+
+  const terms: Record<string, { obligations: string[]; benefits: string[] }> = {};
+  for (const [slot, role] of Object.entries(template.roles)) {
+    const actor = assignments[slot];
+    if (!actor) continue;
+    terms[actor.actor_id] = { obligations: split(role.obligation), benefits: split(role.benefit) };
+  }
+
+  return {
+    title: fillPlaceholders(template.title_pattern, names),
+    summary: fillPlaceholders(template.summary, names),
+    type: template.type,
+    parties: Object.keys(terms),
+    terms
+  };
+}
@@ -0,0 +1,150 @@
+import type { Game } from '$lib/types';
+
+export type GameJoinErrorCode =
+  | 'game_full'
+  | 'password_required'
+  | 'wrong_password'
+  | 'password_unavailable'
+  | 'invalid_invite'
+  | 'observer';
+
+/**
+ * Raised when a user may not join a game. `message` is ready to show as-is.
+ */
+export class GameJoinError extends Error {
+  readonly code: GameJoinErrorCode;
+
+  constructor(code: GameJoinErrorCode, message: string) {
+    super(message);
+    this.name = 'GameJoinError';
+    this.code = code;
+  }
+}
+
+export function isGameJoinError(error: unknown): error is GameJoinError {
+  return error instanceof GameJoinError;
+}
+
+const PBKDF2_ITERATIONS = 100_000;
+
+function toHex(bytes: ArrayBuffer | Uint8Array): string {
+  return Array.from(new Uint8Array(bytes), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+function fromHex(hex: string): Uint8Array {
+  return new Uint8Array((hex.match(/.{2}/g) ?? []).map((h) => parseInt(h, 16)));
+}
+
+async function derive(password: string, salt: Uint8Array, iterations: number): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(password),
+    'PBKDF2',
+    false,
+    ['deriveBits']
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    key,
+    256
+  );
+  return toHex(bits);
+}
+
+/**
+ * Salted PBKDF2 hash of a game password, stored as
+ * `pbkdf2$<iterations>$<salt hex>$<hash hex>`.
+ */
+export async function hashGamePassword(password: string): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const hash = await derive(password, salt, PBKDF2_ITERATIONS);
+  return `pbkdf2$${PBKDF2_ITERATIONS}$${toHex(salt)}$${hash}`;
+}
+
+/**
+ * Check a password against a stored hash.
+ */
+export async function verifyGamePassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, iterations, salt, hash] = stored.split('$');
+  if (scheme !== 'pbkdf2' || !salt || !hash) return false;
+  return (await derive(password, fromHex(salt), Number(iterations))) === hash;
+}
+
+/** Number of users currently in the game's players map */
+export function playerCount(game: Pick<Game, 'players'>): number {
+  return Object.values(game.players ?? {}).filter(Boolean).length;
+}
+
+/** Users watching the game; observers never hold a seat */
+export function observerCount(game: Pick<Game, 'observers'>): number {
+  // unresolved Gun nodes arrive as a soul reference, never `true`
+  return Object.values(game.observers ?? {}).filter((v) => v === true).length;
+}
+
+/** True when the user watches the game without being one of its players */
+export function isObserver(game: Pick<Game, 'players' | 'observers'>, userId: string): boolean {
+  return !!game.observers?.[userId] && !game.players?.[userId];
+}
+
+/**
+ * Throw a GameJoinError when the user only observes the game: observers can
+ * watch the board and read chat but not propose, vote, chat or take a card.
+ */
+export function assertNotObserver(
+  game: Pick<Game, 'players' | 'observers'>,
+  userId: string,
+  action: string
+): void {
+  if (isObserver(game, userId)) {
+    throw new GameJoinError('observer', `Observers cannot ${action}`);
+  }
+}
+
+/** A fresh code for an observer invite link */
+export function newInviteCode(): string {
+  return toHex(crypto.getRandomValues(new Uint8Array(8)));
+}
+
+export function isGameFull(game: Pick<Game, 'players' | 'max_players'>): boolean {
+  return !!game.max_players && playerCount(game) >= game.max_players;
+}
+
+export function hasGamePassword(
+  game: Pick<Game, 'password_protected' | 'password' | 'password_hash'>
+): boolean {
+  return !!game.password_protected || !!game.password_hash || !!game.password;
+}
+
+/**
+ * Throw a GameJoinError unless a new player may join: the game must have a
+ * free seat and, when protected, the password must match `storedHash` (read
+ * by the caller from wherever the hash lives). Games saved before hashing
+ * still carry a plaintext `password`, compared directly.
+ *
+ * These checks run in the joining client: Gun has no server to enforce them,
+ * so they keep honest players out of full or private games rather than
+ * stopping a peer that writes to `players` directly.
+ */
+export async function assertCanJoin(
+  game: Pick<Game, 'players' | 'max_players' | 'password_protected' | 'password' | 'password_hash'>,
+  password?: string,
+  storedHash?: string | null
+): Promise<void> {
+  if (isGameFull(game)) {
+    throw new GameJoinError('game_full', `This game is full (${game.max_players} players)`);
+  }
+  if (!hasGamePassword(game)) return;
+  if (!password) {
+    throw new GameJoinError('password_required', 'This game is password protected');
+  }
+  if (!storedHash && !game.password) {
+    throw new GameJoinError(
+      'password_unavailable',
+      'The game password could not be checked right now, please try again'
+    );
+  }
+  const ok = storedHash
+    ? await verifyGamePassword(password, storedHash)
+    : password === game.password;
+  if (!ok) throw new GameJoinError('wrong_password', 'Incorrect game password');
+}
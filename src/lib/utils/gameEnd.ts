@@ -0,0 +1,98 @@
+import type { Game, GameEndReason, GameSummary, GameSummaryActor } from '$lib/types';
+import { AgreementStatus } from '$lib/types';
+
+export const END_REASON_LABELS: Record<GameEndReason, string> = {
+  end_date: 'End date reached',
+  max_rounds: 'All rounds played',
+  all_cards_placed: 'Every card placed in an agreement',
+  manual: 'Closed by the facilitator'
+};
+
+/** What end conditions and the final summary are computed from */
+export interface GameTally {
+  players: number;
+  roundsPlayed: number;
+  agreements: { status: AgreementStatus; parties: string[]; cards: string[] }[];
+  actors: { actor_id: string; name: string; card_ref?: string | null }[];
+}
+
+function isInForce(status: AgreementStatus): boolean {
+  return status === AgreementStatus.ACCEPTED || status === AgreementStatus.COMPLETED;
+}
+
+/** Cards that appear in at least one accepted or completed agreement */
+export function placedCards(agreements: GameTally['agreements']): Set<string> {
+  return new Set(agreements.filter((a) => isInForce(a.status)).flatMap((a) => a.cards));
+}
+
+/**
+ * Rounds fully played. A round counts once it is closed: when the next one
+ * starts, or when the game ends on it (`currentClosed`).
+ */
+export function roundsPlayed(game: Pick<Game, 'current_round'>, currentClosed = false): number {
+  const current = game.current_round ?? 0;
+  return currentClosed ? current : Math.max(0, current - 1);
+}
+
+/** True when the game has any automatic end condition configured */
+export function hasEndConditions(
+  game: Pick<Game, 'end_date' | 'max_rounds' | 'end_when_all_cards_placed'>
+): boolean {
+  return !!game.end_date || !!game.max_rounds || !!game.end_when_all_cards_placed;
+}
+
+/**
+ * The first automatic end condition the game meets, or null:
+ * - `end_date` has passed
+ * - `max_rounds` rounds have been played
+ * - `end_when_all_cards_placed` and every card held in the game is in force
+ */
+export function endReason(
+  game: Pick<Game, 'end_date' | 'max_rounds' | 'end_when_all_cards_placed'>,
+  tally: Pick<GameTally, 'roundsPlayed' | 'agreements' | 'actors'>,
+  now: number = Date.now()
+): GameEndReason | null {
+  if (game.end_date && now >= game.end_date) return 'end_date';
+  if (game.max_rounds && tally.roundsPlayed >= game.max_rounds) return 'max_rounds';
+  if (game.end_when_all_cards_placed) {
+    const held = tally.actors.map((a) => a.card_ref).filter((c): c is string => !!c);
+    const placed = placedCards(tally.agreements);
+    if (held.length > 0 && held.every((c) => placed.has(c))) return 'all_cards_placed';
+  }
+  return null;
+}
+
+export function buildGameSummary(
+  tally: GameTally,
+  reason: GameEndReason,
+  now: number = Date.now()
+): GameSummary {
+  const byStatus: Record<string, number> = {};
+  for (const a of tally.agreements) byStatus[a.status] = (byStatus[a.status] ?? 0) + 1;
+
+  const actors: Record<string, GameSummaryActor> = {};
+  for (const actor of tally.actors) {
+    const mine = tally.agreements.filter((a) => a.parties.includes(actor.actor_id));
+    actors[actor.actor_id] = {
+      name: actor.name,
+      card_ref: actor.card_ref ?? null,
+      agreements: mine.length,
+      accepted: mine.filter((a) => a.status === AgreementStatus.ACCEPTED).length,
+      completed: mine.filter((a) => a.status === AgreementStatus.COMPLETED).length
+    };
+  }
+
+  const held = new Set(tally.actors.map((a) => a.card_ref).filter((c): c is string => !!c));
+  const placed = placedCards(tally.agreements);
+  return {
+    reason,
+    ended_at: now,
+    rounds_played: tally.roundsPlayed,
+    players: tally.players,
+    total_agreements: tally.agreements.length,
+    agreements_by_status: byStatus,
+    cards_in_play: held.size,
+    cards_placed: [...held].filter((c) => placed.has(c)).length,
+    actors
+  };
+}
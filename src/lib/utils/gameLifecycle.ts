@@ -0,0 +1,123 @@
+import { GameStatus } from '$lib/types';
+
+/** Things players do inside a game that depend on its lifecycle status */
+export type GameAction = 'join' | 'choose_actor' | 'create_agreement' | 'vote' | 'send_message';
+
+export type GameLifecycleErrorCode =
+  | 'invalid_transition' // the status cannot move from → to
+  | 'not_permitted' // the user may not change this game's status
+  | 'action_blocked'; // the action is not allowed in the current status
+
+/**
+ * Raised when a lifecycle rule is broken. `code` lets the UI tell the cases
+ * apart; `message` is ready to show as-is.
+ */
+export class GameLifecycleError extends Error {
+  readonly code: GameLifecycleErrorCode;
+  readonly status?: GameStatus;
+  readonly action?: GameAction;
+
+  constructor(
+    code: GameLifecycleErrorCode,
+    message: string,
+    details: { status?: GameStatus; action?: GameAction } = {}
+  ) {
+    super(message);
+    this.name = 'GameLifecycleError';
+    this.code = code;
+    this.status = details.status;
+    this.action = details.action;
+  }
+}
+
+export function isGameLifecycleError(error: unknown): error is GameLifecycleError {
+  return error instanceof GameLifecycleError;
+}
+
+/** Allowed next statuses; COMPLETED is terminal */
+export const GAME_TRANSITIONS: Record<GameStatus, GameStatus[]> = {
+  [GameStatus.CREATED]: [GameStatus.SETUP, GameStatus.ACTIVE],
+  [GameStatus.SETUP]: [GameStatus.CREATED, GameStatus.ACTIVE],
+  [GameStatus.ACTIVE]: [GameStatus.PAUSED, GameStatus.COMPLETED],
+  [GameStatus.PAUSED]: [GameStatus.ACTIVE, GameStatus.COMPLETED],
+  [GameStatus.COMPLETED]: []
+};
+
+/** What players may do in each status */
+export const GAME_ACTIONS: Record<GameStatus, GameAction[]> = {
+  [GameStatus.CREATED]: ['join', 'choose_actor', 'send_message'],
+  [GameStatus.SETUP]: ['join', 'choose_actor', 'send_message'],
+  [GameStatus.ACTIVE]: ['join', 'choose_actor', 'create_agreement', 'vote', 'send_message'],
+  [GameStatus.PAUSED]: ['send_message'],
+  [GameStatus.COMPLETED]: []
+};
+
+/** Button labels for moving into each status */
+export const TRANSITION_LABELS: Record<GameStatus, string> = {
+  [GameStatus.CREATED]: 'Back to created',
+  [GameStatus.SETUP]: 'Start setup',
+  [GameStatus.ACTIVE]: 'Start / resume',
+  [GameStatus.PAUSED]: 'Pause',
+  [GameStatus.COMPLETED]: 'Complete'
+};
+
+const ACTION_LABELS: Record<GameAction, string> = {
+  join: 'join',
+  choose_actor: 'choose an actor in',
+  create_agreement: 'create agreements in',
+  vote: 'vote in',
+  send_message: 'send messages in'
+};
+
+/** Games saved before statuses were enforced count as active */
+export function effectiveStatus(status: GameStatus | undefined | null): GameStatus {
+  return status && status in GAME_TRANSITIONS ? status : GameStatus.ACTIVE;
+}
+
+export function canTransition(from: GameStatus, to: GameStatus): boolean {
+  return GAME_TRANSITIONS[effectiveStatus(from)].includes(to);
+}
+
+export function canPerform(status: GameStatus | undefined | null, action: GameAction): boolean {
+  return GAME_ACTIONS[effectiveStatus(status)].includes(action);
+}
+
+/**
+ * Throw unless the user may move the game from `from` to `to`.
+ * Only the game creator or an Admin may change a game's status.
+ */
+export function assertTransition(
+  from: GameStatus | undefined | null,
+  to: GameStatus,
+  user: { isCreator: boolean; isAdmin: boolean }
+): void {
+  const current = effectiveStatus(from);
+  if (!user.isCreator && !user.isAdmin) {
+    throw new GameLifecycleError(
+      'not_permitted',
+      'Only the game creator or an admin can change the game status',
+      { status: current }
+    );
+  }
+  if (!canTransition(current, to)) {
+    throw new GameLifecycleError(
+      'invalid_transition',
+      `A ${current} game cannot move to ${to}`,
+      { status: current }
+    );
+  }
+}
+
+/**
+ * Throw unless `action` is allowed while the game is in `status`.
+ */
+export function assertGameAllows(status: GameStatus | undefined | null, action: GameAction): void {
+  const current = effectiveStatus(status);
+  if (!canPerform(current, action)) {
+    throw new GameLifecycleError(
+      'action_blocked',
+      `You cannot ${ACTION_LABELS[action]} a ${current} game`,
+      { status: current, action }
+    );
+  }
+}
@@ -0,0 +1,77 @@
+import type { Game, GamePhase } from '$lib/types';
+
+/** Phases run in this order every round */
+export const ROUND_PHASES: GamePhase[] = ['negotiate', 'vote', 'resolve'];
+
+export const PHASE_LABELS: Record<GamePhase, string> = {
+  negotiate: 'Negotiate',
+  vote: 'Vote',
+  resolve: 'Resolve'
+};
+
+/** Agreement steps that are tied to a phase once rounds are running */
+export type RoundAction = 'propose' | 'vote';
+
+const PHASE_ACTIONS: Record<GamePhase, RoundAction[]> = {
+  negotiate: ['propose'],
+  vote: ['vote'],
+  resolve: []
+};
+
+const ACTION_LABELS: Record<RoundAction, string> = {
+  propose: 'proposed',
+  vote: 'voted on'
+};
+
+/** Games without a current round play freely, as before rounds existed */
+export function hasRounds(game: Pick<Game, 'current_round'> | null | undefined): boolean {
+  return !!game?.current_round;
+}
+
+/**
+ * The round and phase after the current one; the first call starts round 1.
+ */
+export function nextPhase(
+  round: number | undefined,
+  phase: GamePhase | undefined
+): { round: number; phase: GamePhase } {
+  if (!round || !phase) return { round: 1, phase: ROUND_PHASES[0] };
+  const i = ROUND_PHASES.indexOf(phase);
+  return i >= 0 && i < ROUND_PHASES.length - 1
+    ? { round, phase: ROUND_PHASES[i + 1] }
+    : { round: round + 1, phase: ROUND_PHASES[0] };
+}
+
+/**
+ * Throw unless `action` fits the game's current phase. Games without rounds
+ * allow everything.
+ */
+export function assertPhaseAllows(
+  game: Pick<Game, 'current_round' | 'round_phase'> | null | undefined,
+  action: RoundAction
+): void {
+  if (!game || !hasRounds(game) || !game.round_phase) return;
+  if (PHASE_ACTIONS[game.round_phase].includes(action)) return;
+  const allowed = ROUND_PHASES.find((p) => PHASE_ACTIONS[p].includes(action))!;
+  throw new Error(
+    `Agreements can only be ${ACTION_LABELS[action]} in the ${PHASE_LABELS[allowed].toLowerCase()} phase ` +
+      `(round ${game.current_round} is in ${PHASE_LABELS[game.round_phase].toLowerCase()})`
+  );
+}
+
+/** Milliseconds left in a timed phase, or null when the phase is untimed */
+export function phaseRemaining(
+  game: Pick<Game, 'phase_ends_at'>,
+  now: number = Date.now()
+): number | null {
+  return game.phase_ends_at ? Math.max(0, game.phase_ends_at - now) : null;
+}
+
+/** e.g. '4:05' or '1:02:30' */
+export function formatRemaining(ms: number): string {
+  const total = Math.ceil(ms / 1000);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, '0');
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+}
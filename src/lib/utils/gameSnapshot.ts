@@ -0,0 +1,51 @@
+import type { GameSnapshotState } from '$lib/types';
+
+/** Gun metadata keys that never belong in a snapshot */
+function isMetaKey(key: string): boolean {
+  return key === '_' || key === '#' || key.startsWith('#');
+}
+
+/**
+ * The scalar fields of a Gun node (strings, numbers, booleans, null). Nested
+ * nodes come back from Gun as soul references and are captured separately.
+ */
+export function primitiveFields(node: object | null | undefined): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(node ?? {}).filter(
+      ([k, v]) => !isMetaKey(k) && v !== undefined && (v === null || typeof v !== 'object')
+    )
+  );
+}
+
+/**
+ * What to `put` so a node ends up exactly as `snapshot`: Gun merges puts, so
+ * every key that exists now but not in the snapshot is written as null
+ * (Gun's tombstone) instead of being left behind.
+ */
+export function withTombstones<T>(
+  snapshot: Record<string, T>,
+  currentKeys: string[],
+  keep: string[] = []
+): Record<string, T | null> {
+  const tombstones = Object.fromEntries(
+    currentKeys
+      .filter((k) => !isMetaKey(k) && !(k in snapshot) && !keep.includes(k))
+      .map((k) => [k, null])
+  );
+  return { ...tombstones, ...snapshot };
+}
+
+export function serializeSnapshotState(state: GameSnapshotState): string {
+  return JSON.stringify(state);
+}
+
+/** Parse a stored snapshot, or null when it is unreadable or from an unknown version */
+export function parseSnapshotState(raw: string | null | undefined): GameSnapshotState | null {
+  if (!raw) return null;
+  try {
+    const state = JSON.parse(raw) as GameSnapshotState;
+    return state?.version === 1 && state.game ? state : null;
+  } catch {
+    return null;
+  }
+}
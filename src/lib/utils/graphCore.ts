@@ -1,6 +1,8 @@
 import * as d3 from 'd3';
 import type { CardWithPosition, AgreementWithPosition, D3Node, D3Link } from '$lib/types';
 import { AgreementStatus } from '$lib/types';
+import { describeRatificationRule, shortRatificationLabel } from './ratification';
+import { isExpiringSoon } from './agreementExpiry';
 
 // ─── Globals to hold the live simulation & data ────────────────────────────
 let simulationGlobal: d3.Simulation<D3Node, undefined>;
@@ -16,6 +18,9 @@ let nodeElementsGlobal: d3.Selection<SVGGElement, D3Node, any, any>;
  * use that agreement’s status color; otherwise fall back.
  */
 function getLinkStroke(d: D3Link): string {
+  // agreement → agreement relations have their own palette
+  if (d.type === 'dependency') return getDependencyColor(d);
+
   // 1) if the link endpoints are already node objects, check them first:
   let sourceNode: D3Node | undefined =
     typeof d.source === 'object' ? d.source :
@@ -33,13 +38,7 @@ function getLinkStroke(d: D3Link): string {
         : undefined;
 
   if (agreementNode) {
-    switch ((agreementNode.data as AgreementWithPosition).status) {
-      case AgreementStatus.PROPOSED:  return 'var(--color-warning-500)';
-      case AgreementStatus.ACCEPTED:  return 'var(--color-success-500)';
-      case AgreementStatus.COMPLETED: return 'var(--color-primary-500)';
-      case AgreementStatus.REJECTED:  return 'var(--color-error-500)';
-      default:                        return 'var(--color-surface-500)';
-    }
+    return getAgreementColor(agreementNode.data as AgreementWithPosition);
   }
 
   // 3) fallback
@@ -48,6 +47,40 @@ function getLinkStroke(d: D3Link): string {
     : 'var(--color-indigo-600-400)';
 }
 
+// status colour of an agreement; accepted ones close to expiry stand out
+function getAgreementColor(agreement: AgreementWithPosition): string {
+  if (isExpiringSoon(agreement)) return 'var(--color-tertiary-500)';
+  switch (agreement.status) {
+    case AgreementStatus.PROPOSED:  return 'var(--color-warning-500)';
+    case AgreementStatus.ACCEPTED:  return 'var(--color-success-500)';
+    case AgreementStatus.COMPLETED: return 'var(--color-primary-500)';
+    case AgreementStatus.REJECTED:  return 'var(--color-error-500)';
+    case AgreementStatus.EXPIRED:   return 'var(--color-surface-400-600)';
+    case AgreementStatus.DISPUTED:  return 'var(--color-secondary-500)';
+    case AgreementStatus.NEGOTIATING: return 'var(--color-warning-300)';
+    default:                        return 'var(--color-surface-500)';
+  }
+}
+
+// colour of an agreement → agreement relation
+function getDependencyColor(d: D3Link): string {
+  switch (d.dependency) {
+    case 'exclusive':  return 'var(--color-error-400)';
+    case 'supersedes': return 'var(--color-surface-500)';
+    default:           return 'var(--color-warning-600)';
+  }
+}
+
+// benefits are dashed; symmetric spokes are dotted so no party reads as the source
+function getLinkDash(d: D3Link): string {
+  switch (d.type) {
+    case 'benefit': return '4,2';
+    case 'shared':  return '1,3';
+    case 'dependency': return '8,4';
+    default:        return 'none';
+  }
+}
+
 /**
  * Creates D3 nodes from cards and agreements
  */
@@ -93,6 +126,22 @@ export function createLinks(
       .map((pi) => actorCardMap.get(pi.actorId))
       .filter((id): id is string => !!id);
     if (cardIds.length < 2) return;
+
+    // symmetric: a hub with evenly spaced, undirected spokes to every party
+    if (agreement.type === 'symmetric') {
+      const step = (2 * Math.PI) / cardIds.length;
+      cardIds.forEach((cid, i) => {
+        links.push({
+          source: agreementId,
+          target: cid,
+          type: 'shared',
+          id: `${agreementId}_with_${cid}_shared`,
+          angle: step * i
+        });
+      });
+      return;
+    }
+
     links.push({
       source: cardIds[0],
       target: agreementId,
@@ -112,6 +161,21 @@ export function createLinks(
       });
     });
   });
+
+  // relations between agreements: one link per pair, drawn from the declaring side
+  const agreementIds = new Set(agreements.map((a) => a.agreement_id));
+  agreements.forEach((agreement) => {
+    Object.values(agreement.dependencies ?? {}).forEach((dep) => {
+      if (dep.direction !== 'outgoing' || !agreementIds.has(dep.agreement_ref)) return;
+      links.push({
+        source: agreement.agreement_id,
+        target: dep.agreement_ref,
+        type: 'dependency',
+        dependency: dep.kind,
+        id: `${agreement.agreement_id}_${dep.kind}_${dep.agreement_ref}`
+      });
+    });
+  });
   return links;
 }
 
@@ -193,7 +257,7 @@ function angleForce(links: D3Link[], nodes: D3Node[]) {
         const dy = Math.sin(link.angle) * desiredDistance;
         subNode.vx = (subNode.vx || 0) + (parentNode.x! + dx - subNode.x!) * 0.3;
         subNode.vy = (subNode.vy || 0) + (parentNode.y! + dy - subNode.y!) * 0.3;
-      } else if (link.type === 'obligation' || link.type === 'benefit') {
+      } else if (link.type === 'obligation' || link.type === 'benefit' || link.type === 'shared') {
         const agreementNode = source.type === 'agreement' ? source : target;
         const cardNode = source.type === 'agreement' ? target : source;
         if (!agreementNode || !cardNode) return;
@@ -273,7 +337,7 @@ export function spawnCategorySubnode(
             .attr('stroke', d => getLinkStroke(d))
             .attr('stroke-width', 1.5)
             .attr('stroke-opacity', 0.7)
-            .attr('stroke-dasharray', d => d.type === 'benefit' ? '4,2' : 'none');
+            .attr('stroke-dasharray', d => getLinkDash(d));
           return g;
         },
         update => {
@@ -281,7 +345,7 @@ export function spawnCategorySubnode(
           return update.each(function(d) {
             d3.select<SVGGElement, D3Link>(this).selectAll<SVGLineElement,D3Link>('line')
               .attr('stroke', link => getLinkStroke(link))
-              .attr('stroke-dasharray', link => link.type === 'benefit' ? '4,2' : 'none');
+              .attr('stroke-dasharray', link => getLinkDash(link));
           });
         },
         exit => exit.remove()
@@ -555,7 +619,7 @@ linkEnter.append('line')
   .attr('stroke', d => getLinkStroke(d))
   .attr('stroke-width', 1.5)
   .attr('stroke-opacity', 0.7)
-  .attr('stroke-dasharray', d => d.type === 'benefit' ? '4,2' : 'none');
+  .attr('stroke-dasharray', d => getLinkDash(d));
 
 // 3) now capture *all* of the <g.link-group> into your global
 linkElementsGlobal = linkGroup
@@ -608,19 +672,21 @@ linkElementsGlobal = linkGroup
     agreementNodes.append('circle')
       .attr('r', 14)
       .attr('fill', 'none')
-      .attr('stroke', d => {
-        const agreement = d.data as AgreementWithPosition;
-        switch (agreement.status) {
-          case AgreementStatus.PROPOSED:  return 'var(--color-warning-500)';
-          case AgreementStatus.ACCEPTED:  return 'var(--color-success-500)';
-          case AgreementStatus.COMPLETED: return 'var(--color-primary-500)';
-          case AgreementStatus.REJECTED:  return 'var(--color-error-500)';
-          default: return 'var(--color-surface-500)';
-        }
-      })
+      .attr('stroke', d => getAgreementColor(d.data as AgreementWithPosition))
       .attr('stroke-width', 2)
       .style('pointer-events', 'none');
 
+    // symmetric agreements get an outer ring: every party stands on equal footing
+    agreementNodes.filter(d => (d.data as AgreementWithPosition).type === 'symmetric')
+      .append('circle')
+      .attr('class', 'symmetric-ring')
+      .attr('r', 17)
+      .attr('fill', 'none')
+      .attr('stroke', 'var(--color-surface-600-400)')
+      .attr('stroke-width', 1)
+      .attr('stroke-dasharray', '1,3')
+      .style('pointer-events', 'none');
+
     // labels
     const nodeLabels = nodeElementsGlobal.append('g').attr('class', 'node-label');
     const baseR = 30, aggR = 12, outMult = 1.5, labelMult = 1.1;
@@ -663,6 +729,20 @@ linkElementsGlobal = linkGroup
           .attr('font-weight','bold')
           .attr('fill','#fff')
           .text(lab);
+
+        // ratification rule badge under the agreement
+        const ag = d.data as AgreementWithPosition | null;
+        if (ag) {
+          g.append('text')
+            .attr('class', 'ratification-label')
+            .attr('text-anchor','middle')
+            .attr('y', aggR + 12)
+            .attr('font-size', aggR * 0.65)
+            .attr('fill','var(--color-surface-700-300)')
+            .text(shortRatificationLabel(ag.ratification_rule, ag.ratification_threshold))
+            .append('title')
+            .text(describeRatificationRule(ag.ratification_rule, ag.ratification_threshold));
+        }
       }
     });
 
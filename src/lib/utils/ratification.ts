@@ -0,0 +1,128 @@
+import type { AgreementVote, RatificationRule } from '$lib/types';
+import { AgreementStatus } from '$lib/types';
+
+export const DEFAULT_SUPERMAJORITY = 2 / 3;
+
+export const RATIFICATION_RULES: RatificationRule[] = [
+  'unanimous',
+  'majority',
+  'supermajority',
+  'creator-plus-one',
+  'consent'
+];
+
+export const RATIFICATION_RULE_LABELS: Record<RatificationRule, string> = {
+  unanimous: 'Unanimous',
+  majority: 'Simple majority',
+  supermajority: 'Supermajority',
+  'creator-plus-one': 'Creator + one',
+  consent: 'Consent (silence accepts)'
+};
+
+export interface RatificationPolicy {
+  rule: RatificationRule;
+  /** Share of parties required for a supermajority (0–1) */
+  threshold?: number;
+  /** Consent rule: pending votes count as accept once this time has passed */
+  deadline?: number;
+  /** Creator-plus-one rule: the actor the agreement's creator plays */
+  creatorActorId?: string | null;
+}
+
+/**
+ * Human-readable name of a rule, including its threshold where relevant.
+ */
+export function describeRatificationRule(
+  rule: RatificationRule = 'unanimous',
+  threshold?: number
+): string {
+  if (rule === 'supermajority') {
+    const share = Math.round((threshold ?? DEFAULT_SUPERMAJORITY) * 100);
+    return `${RATIFICATION_RULE_LABELS.supermajority} (${share}%)`;
+  }
+  return RATIFICATION_RULE_LABELS[rule] ?? RATIFICATION_RULE_LABELS.unanimous;
+}
+
+/**
+ * Compact badge text for a rule, used on agreement nodes.
+ */
+export function shortRatificationLabel(
+  rule: RatificationRule = 'unanimous',
+  threshold?: number
+): string {
+  switch (rule) {
+    case 'majority':         return 'MAJ';
+    case 'supermajority':    return `${Math.round((threshold ?? DEFAULT_SUPERMAJORITY) * 100)}%`;
+    case 'creator-plus-one': return 'C+1';
+    case 'consent':          return 'CNS';
+    default:                 return 'ALL';
+  }
+}
+
+/**
+ * Resolve an agreement's status from its party votes under `policy`.
+ * Returns PROPOSED while the outcome is still open.
+ */
+export function resolveRatification(
+  votes: Record<string, AgreementVote>,
+  policy: RatificationPolicy,
+  now: number = Date.now()
+): AgreementStatus {
+  const entries = Object.entries(votes);
+  const total = entries.length;
+  if (total === 0) return AgreementStatus.PROPOSED;
+
+  const accepts = entries.filter(([, v]) => v === 'accept').length;
+  const rejects = entries.filter(([, v]) => v === 'reject').length;
+  const pending = total - accepts - rejects;
+
+  switch (policy.rule) {
+    case 'majority': {
+      if (accepts > total / 2) return AgreementStatus.ACCEPTED;
+      if (accepts + pending <= total / 2) return AgreementStatus.REJECTED;
+      return AgreementStatus.PROPOSED;
+    }
+
+    case 'supermajority': {
+      const threshold = policy.threshold ?? DEFAULT_SUPERMAJORITY;
+      if (accepts / total >= threshold) return AgreementStatus.ACCEPTED;
+      if ((accepts + pending) / total < threshold) return AgreementStatus.REJECTED;
+      return AgreementStatus.PROPOSED;
+    }
+
+    case 'creator-plus-one': {
+      const creatorId = policy.creatorActorId;
+      // Without a creator party this degrades to "any two parties accept"
+      const creatorVote = creatorId ? votes[creatorId] : undefined;
+      const others = entries.filter(([id]) => id !== creatorId);
+      const otherAccepts = others.filter(([, v]) => v === 'accept').length;
+      const otherOpen = others.filter(([, v]) => v !== 'reject').length;
+
+      if (creatorVote === 'reject') return AgreementStatus.REJECTED;
+      if (creatorVote !== undefined) {
+        if (creatorVote === 'accept' && (otherAccepts >= 1 || others.length === 0)) {
+          return AgreementStatus.ACCEPTED;
+        }
+        if (others.length > 0 && otherOpen === 0) return AgreementStatus.REJECTED;
+        return AgreementStatus.PROPOSED;
+      }
+      if (accepts >= 2) return AgreementStatus.ACCEPTED;
+      if (accepts + pending < 2) return AgreementStatus.REJECTED;
+      return AgreementStatus.PROPOSED;
+    }
+
+    case 'consent': {
+      if (rejects > 0) return AgreementStatus.REJECTED;
+      if (accepts === total) return AgreementStatus.ACCEPTED;
+      if (policy.deadline && now >= policy.deadline) return AgreementStatus.ACCEPTED;
+      return AgreementStatus.PROPOSED;
+    }
+
+    case 'unanimous':
+    default: {
+      if (rejects > 0) return AgreementStatus.REJECTED;
+      if (accepts === total) return AgreementStatus.ACCEPTED;
+      return AgreementStatus.PROPOSED;
+    }
+  }
+}
@@ -0,0 +1,85 @@
+import type { ActorProfile, AgreementDispute, ObligationItem } from '$lib/types';
+import { AgreementStatus } from '$lib/types';
+
+type ReputationTally = Pick<
+  ActorProfile,
+  'agreements_made' | 'agreements_fulfilled' | 'agreements_breached' | 'disputes_lost'
+>;
+
+export type ReputationTier = 'new' | 'trusted' | 'steady' | 'risky';
+
+export const REPUTATION_TIER_LABELS: Record<ReputationTier, string> = {
+  new: 'New',
+  trusted: 'Trusted',
+  steady: 'Steady',
+  risky: 'Risky'
+};
+
+export const REPUTATION_TIER_CLASSES: Record<ReputationTier, string> = {
+  new: 'preset-tonal-surface',
+  trusted: 'preset-tonal-success',
+  steady: 'preset-tonal-secondary',
+  risky: 'preset-tonal-error'
+};
+
+// Statuses an agreement only reaches after it was ratified
+const RATIFIED: AgreementStatus[] = [
+  AgreementStatus.ACCEPTED,
+  AgreementStatus.COMPLETED,
+  AgreementStatus.DISPUTED,
+  AgreementStatus.EXPIRED
+];
+
+/**
+ * What one agreement adds to an actor's track record. Proposals that were
+ * never ratified don't count; a dispute is lost when it was upheld against an
+ * obligation the actor owed, or dismissed after the actor opened it. An
+ * upheld dispute that left the agreement breached counts once, as the breach.
+ */
+export function tallyAgreement(
+  actorId: string,
+  status: AgreementStatus,
+  obligations: ObligationItem[],
+  disputes: AgreementDispute[]
+): ReputationTally {
+  const owed = obligations.filter((o) => o.fromActorId === actorId);
+  const owner = new Map(obligations.map((o) => [o.id, o.fromActorId]));
+  const ratified = RATIFIED.includes(status);
+  const breached = ratified && owed.some((o) => o.state === 'breached');
+  const lost = disputes.filter((d) => {
+    if (d.status !== 'resolved' || !d.resolution) return false;
+    if (d.resolution.outcome === 'dismissed') return d.opened_by_actor === actorId;
+    return !!d.obligation_ref && owner.get(d.obligation_ref) === actorId && !breached;
+  }).length;
+
+  if (!ratified) {
+    return { agreements_made: 0, agreements_fulfilled: 0, agreements_breached: 0, disputes_lost: lost };
+  }
+  const fulfilled =
+    !breached &&
+    (status === AgreementStatus.COMPLETED || (owed.length > 0 && owed.every((o) => o.state === 'done')));
+  return {
+    agreements_made: 1,
+    agreements_fulfilled: fulfilled ? 1 : 0,
+    agreements_breached: breached ? 1 : 0,
+    disputes_lost: lost
+  };
+}
+
+/**
+ * Reputation on a 0–100 scale: the share of good outcomes among judged ones,
+ * smoothed so an actor without history sits at 50 and a single result
+ * doesn't push the score to either end.
+ */
+export function reputationScore(tally: ReputationTally): number {
+  const good = tally.agreements_fulfilled;
+  const bad = tally.agreements_breached + tally.disputes_lost;
+  return Math.round((100 * (good + 1)) / (good + bad + 2));
+}
+
+export function reputationTier(profile: ActorProfile): ReputationTier {
+  const judged = profile.agreements_fulfilled + profile.agreements_breached + profile.disputes_lost;
+  if (judged === 0) return 'new';
+  if (profile.reputation >= 70) return 'trusted';
+  return profile.reputation < 40 ? 'risky' : 'steady';
+}
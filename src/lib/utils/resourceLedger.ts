@@ -0,0 +1,95 @@
+import type { ResourceKind, ResourceLedgerEntry, ResourceQuantity } from '$lib/types';
+
+export const RESOURCE_KIND_LABELS: Record<ResourceKind, string> = {
+  money: 'Money',
+  land: 'Land',
+  labour_hours: 'Labour',
+  custom: 'Other'
+};
+
+const MULTIPLIERS: Record<string, number> = {
+  k: 1_000,
+  thousand: 1_000,
+  m: 1_000_000,
+  million: 1_000_000,
+  b: 1_000_000_000,
+  billion: 1_000_000_000
+};
+
+function toNumber(raw: string, suffix?: string): number {
+  const n = parseFloat(raw.replace(/,/g, ''));
+  return suffix ? n * (MULTIPLIERS[suffix.toLowerCase()] ?? 1) : n;
+}
+
+/** Parse one phrase such as "$50K in discretionary funds" or "3 tractors" */
+function parsePhrase(phrase: string): ResourceQuantity | null {
+  const money = phrase.match(/\$\s*([\d,.]+)\s*(thousand|million|billion|[kmb])?\b/i);
+  if (money) {
+    return { resource_id: 'money', kind: 'money', unit: '$', amount: toNumber(money[1], money[2]) };
+  }
+  const land = phrase.match(/([\d,.]+)\s*(acres?|hectares?|ha)\b/i);
+  if (land) {
+    const unit = land[2].toLowerCase().startsWith('a') ? 'acres' : 'hectares';
+    return { resource_id: 'land', kind: 'land', unit, amount: toNumber(land[1]) };
+  }
+  const labour = phrase.match(/([\d,.]+)\s*(?:[a-z-]+\s+)?(?:hours?|hrs?)\b/i);
+  if (labour) {
+    return { resource_id: 'labour_hours', kind: 'labour_hours', unit: 'hours', amount: toNumber(labour[1]) };
+  }
+  const custom = phrase.match(/([\d,.]+)\s*([a-z][a-z-]*)/i);
+  if (custom) {
+    const unit = custom[2].toLowerCase();
+    // "1 van" and "2 vans" are the same resource
+    return { resource_id: `custom_${unit.replace(/s$/, '')}`, kind: 'custom', unit, amount: toNumber(custom[1]) };
+  }
+  return null;
+}
+
+/**
+ * Typed quantities found in a card's free-text `resources`, e.g.
+ * "$50K in discretionary funds, 5 acres of farmland and 3 tractors".
+ * Phrases without a number are skipped; repeats of a resource add up.
+ */
+export function parseCardResources(text: string | null | undefined): ResourceQuantity[] {
+  const found = new Map<string, ResourceQuantity>();
+  for (const phrase of (text ?? '').split(/[,;\n]|\band\b/i)) {
+    const q = parsePhrase(phrase);
+    if (!q || !Number.isFinite(q.amount) || q.amount <= 0) continue;
+    const prev = found.get(q.resource_id);
+    found.set(q.resource_id, prev ? { ...prev, amount: prev.amount + q.amount } : q);
+  }
+  return [...found.values()];
+}
+
+/** Balances per actor per resource: seeds and transfers in, transfers out */
+export function ledgerBalances(
+  entries: ResourceLedgerEntry[]
+): Record<string, Record<string, ResourceQuantity>> {
+  const balances: Record<string, Record<string, ResourceQuantity>> = {};
+  const add = (actorId: string, e: ResourceLedgerEntry, amount: number) => {
+    const held = (balances[actorId] ??= {});
+    const prev = held[e.resource_id];
+    held[e.resource_id] = {
+      resource_id: e.resource_id,
+      kind: e.kind,
+      unit: e.unit,
+      amount: (prev?.amount ?? 0) + amount
+    };
+  };
+  for (const e of entries) {
+    add(e.to_actor, e, e.amount);
+    if (e.from_actor) add(e.from_actor, e, -e.amount);
+  }
+  return balances;
+}
+
+/** An actor's net from transfers and earlier close-outs, per resource; seeds left out */
+export function transferNet(entries: ResourceLedgerEntry[], actorId: string): ResourceQuantity[] {
+  const moved = ledgerBalances(entries.filter((e) => e.entry_type !== 'seed'))[actorId] ?? {};
+  return Object.values(moved).filter((q) => q.amount !== 0);
+}
+
+export function formatQuantity(q: Pick<ResourceQuantity, 'kind' | 'unit' | 'amount'>): string {
+  const amount = q.amount.toLocaleString(undefined, { maximumFractionDigits: 2 });
+  return q.kind === 'money' ? `${q.unit}${amount}` : `${amount} ${q.unit}`;
+}
@@ -0,0 +1,89 @@
+import type { Card } from '$lib/types';
+
+/** Turn any seed text into a 32-bit integer (FNV-1a) */
+export function seedToInt(seed: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    h ^= seed.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/** Deterministic PRNG (mulberry32) returning floats in [0, 1) */
+export function seededRandom(seed: string): () => number {
+  let a = seedToInt(seed);
+  return () => {
+    a = (a + 0x6d2b79f5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Short random seed facilitators can note down, e.g. 'k3x9q2' */
+export function newSeed(): string {
+  return Math.random().toString(36).slice(2, 8);
+}
+
+/**
+ * Fisher–Yates shuffle driven by `random`; returns a new array.
+ * The same seed always produces the same order for the same input order.
+ */
+export function shuffle<T>(items: T[], random: () => number): T[] {
+  const out = [...items];
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [out[i], out[j]] = [out[j], out[i]];
+  }
+  return out;
+}
+
+/**
+ * Order cards so that taking the first N spreads them across categories:
+ * each category is shuffled, then categories are visited round-robin in a
+ * shuffled order.
+ */
+function balancedOrder(cards: Card[], random: () => number): Card[] {
+  const groups = new Map<string, Card[]>();
+  for (const card of cards) {
+    const key = card.card_category || 'Uncategorised';
+    groups.set(key, [...(groups.get(key) ?? []), card]);
+  }
+  const queues = shuffle([...groups.keys()].sort(), random).map((key) =>
+    shuffle(groups.get(key)!, random)
+  );
+
+  const out: Card[] = [];
+  while (queues.some((q) => q.length > 0)) {
+    for (const queue of queues) {
+      const next = queue.shift();
+      if (next) out.push(next);
+    }
+  }
+  return out;
+}
+
+/**
+ * Deal one card to each player. Inputs are sorted by id first, so the result
+ * only depends on the seed and the sets of players and cards. Players left
+ * over when cards run out are not in the result.
+ */
+export function dealCards(
+  playerIds: string[],
+  cards: Card[],
+  options: { seed: string; balanceByCategory?: boolean }
+): Record<string, string> {
+  const random = seededRandom(options.seed);
+  const sortedCards = [...cards].sort((a, b) => a.card_id.localeCompare(b.card_id));
+  const deck = options.balanceByCategory
+    ? balancedOrder(sortedCards, random)
+    : shuffle(sortedCards, random);
+  const players = shuffle([...playerIds].sort(), random);
+
+  const deal: Record<string, string> = {};
+  players.forEach((playerId, i) => {
+    if (deck[i]) deal[playerId] = deck[i].card_id;
+  });
+  return deal;
+}